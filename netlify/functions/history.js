@@ -0,0 +1,152 @@
+// Netlify function returning the whole 24-hour WindBorne window in one payload:
+// every hour file fetched server-side, validated, with per-hour diagnostics.
+// Set WINDBORNE_BASE_URL to point it at a stub upstream when testing locally.
+const crypto = require('crypto');
+
+const BASE_URL = (process.env.WINDBORNE_BASE_URL || 'https://a.windbornesystems.com/treasure').replace(/\/$/, '');
+const HOURS = Array.from({ length: 24 }, (_, i) => i);
+const HOUR_MS = 60 * 60 * 1000;
+const UPSTREAM_TIMEOUT = 10000;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag',
+};
+
+// Hour files roll over on the hour, so caches only need to hold briefly
+const CACHE_CONTROL = 'public, max-age=60, stale-while-revalidate=240';
+
+function emptyRejections() {
+  return { 'non-array': 0, 'wrong-arity': 0, nan: 0, 'lat-range': 0, 'lon-range': 0, 'alt-range': 0 };
+}
+
+function normalizeLongitude(lon) {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+// Same rules as checkPosition / isValidPosition in src/services/constellationApi.ts;
+// keep the two in step
+function checkPosition(row, lenient) {
+  if (!Array.isArray(row)) return { reason: 'non-array' };
+  if (row.length !== 3 && !(lenient && row.length > 3)) return { reason: 'wrong-arity' };
+
+  let repaired = row.length !== 3;
+  const values = row.slice(0, 3).map((value) => {
+    if (lenient && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      repaired = true;
+      return Number(value);
+    }
+    return value;
+  });
+
+  if (values.some((value) => typeof value !== 'number' || isNaN(value))) return { reason: 'nan' };
+  const [lat, , alt] = values;
+  let lon = values[1];
+
+  if (lat < -90 || lat > 90) return { reason: 'lat-range' };
+  if (lon < -180 || lon > 180) {
+    if (!lenient || !isFinite(lon)) return { reason: 'lon-range' };
+    lon = normalizeLongitude(lon);
+    repaired = true;
+  }
+  if (alt < -500 || alt > 50000) return { reason: 'alt-range' };
+
+  return { position: [lat, lon, alt], repaired };
+}
+
+// Fetch and validate one hour file; rows is null when it couldn't be read
+async function fetchHour(hour, hourStart, lenient) {
+  const url = `${BASE_URL}/${String(hour).padStart(2, '0')}.json`;
+  const report = {
+    hour,
+    hourStart,
+    status: null,
+    totalRows: 0,
+    acceptedRows: 0,
+    repairedRows: 0,
+    rejected: emptyRejections(),
+    rows: null,
+  };
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    report.status = response.status;
+    if (!response.ok) return { ...report, error: `HTTP ${response.status}` };
+
+    let data;
+    try {
+      data = await response.json();
+    } catch {
+      return { ...report, error: 'Invalid JSON' };
+    }
+    if (!Array.isArray(data)) return { ...report, rows: [], error: 'Response is not an array' };
+
+    const rows = [];
+    data.forEach((row) => {
+      const result = checkPosition(row, lenient);
+      if (result.reason) {
+        report.rejected[result.reason]++;
+        return;
+      }
+      rows.push(result.position);
+      if (result.repaired) report.repairedRows++;
+    });
+    return { ...report, totalRows: data.length, acceptedRows: rows.length, rows };
+  } catch (error) {
+    return { ...report, error: error.name === 'AbortError' ? 'Timed out' : error.message || 'Network error' };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+exports.handler = async (event, context) => {
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers: { ...CORS_HEADERS, 'Access-Control-Allow-Methods': 'GET, OPTIONS' },
+      body: '',
+    };
+  }
+
+  if (event.httpMethod !== 'GET') {
+    return {
+      statusCode: 405,
+      headers: CORS_HEADERS,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  const lenient = event.queryStringParameters?.lenient === '1';
+  const latestHourStart = Math.floor(Date.now() / HOUR_MS) * HOUR_MS;
+
+  try {
+    const hours = await Promise.all(HOURS.map((hour) => fetchHour(hour, latestHourStart - hour * HOUR_MS, lenient)));
+    const body = JSON.stringify({ latestHourStart, lenient, hours });
+
+    // The ETag covers the payload itself, so an unchanged window revalidates as 304
+    const etag = `"${crypto.createHash('sha1').update(body).digest('base64url')}"`;
+    const headers = {
+      ...CORS_HEADERS,
+      'Content-Type': 'application/json',
+      'Cache-Control': CACHE_CONTROL,
+      ETag: etag,
+    };
+
+    const ifNoneMatch = event.headers?.['if-none-match'];
+    if (ifNoneMatch && ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag)) {
+      return { statusCode: 304, headers, body: '' };
+    }
+
+    return { statusCode: 200, headers, body };
+  } catch (error) {
+    console.error('History aggregation failed:', error);
+    return {
+      statusCode: 500,
+      headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ error: 'Internal server error' }),
+    };
+  }
+};
@@ -1,3 +1,17 @@
+// Query parameters forwarded to Open-Meteo
+const FORWARDED_PARAMS = [
+  'latitude',
+  'longitude',
+  'current',
+  'hourly',
+  'past_days',
+  'forecast_days',
+  'start_hour',
+  'end_hour',
+  'timezone',
+  'timeformat',
+];
+
 exports.handler = async (event, context) => {
   // Handle CORS preflight
   if (event.httpMethod === 'OPTIONS') {
@@ -22,7 +36,8 @@ exports.handler = async (event, context) => {
     };
   }
 
-  const { latitude, longitude } = event.queryStringParameters || {};
+  const query = event.queryStringParameters || {};
+  const { latitude, longitude } = query;
 
   if (!latitude || !longitude) {
     return {
@@ -35,7 +50,15 @@ exports.handler = async (event, context) => {
   }
 
   try {
-    const url = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,relative_humidity_2m,wind_speed_10m,wind_direction_10m,surface_pressure&timezone=auto`;
+    const params = new URLSearchParams();
+    FORWARDED_PARAMS.forEach((name) => {
+      if (query[name]) params.set(name, query[name]);
+    });
+    if (!params.has('current') && !params.has('hourly')) {
+      params.set('current', 'temperature_2m,relative_humidity_2m,wind_speed_10m,wind_direction_10m,surface_pressure');
+    }
+
+    const url = `https://api.open-meteo.com/v1/forecast?${params}`;
     
     const response = await fetch(url);
     const data = await response.json();
@@ -0,0 +1,31 @@
+// Stub WindBorne upstream for testing the history function locally:
+//   node scripts/stub-upstream.mjs            # serves http://localhost:8787/NN.json
+//   WINDBORNE_BASE_URL=http://localhost:8787 netlify dev
+//   or open the app with ?source=replay:http://localhost:8787
+// Balloons drift east by a degree an hour. A few rows are malformed on
+// purpose, and STUB_MISSING_HOURS=3,7 makes those hours return 404.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.STUB_PORT || 8787);
+const BALLOONS = Number(process.env.STUB_BALLOONS || 50);
+const MISSING = new Set((process.env.STUB_MISSING_HOURS || '').split(',').filter(Boolean).map(Number));
+
+function hourFile(hour) {
+  const rows = Array.from({ length: BALLOONS }, (_, i) => {
+    const lon = ((i * 37 - hour + 180) % 360 + 360) % 360 - 180;
+    return [-60 + (i * 97) % 120, lon, 8000 + ((i * 613) % 12000)];
+  });
+  return [...rows, [null, 0, 0], [91, 0, 1000], [10, 20], 'not a row'];
+}
+
+createServer((req, res) => {
+  const match = req.url?.match(/^\/(\d{2})\.json$/);
+  const hour = match ? Number(match[1]) : -1;
+  if (hour < 0 || hour > 23 || MISSING.has(hour)) {
+    res.writeHead(404, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify(hourFile(hour)));
+}).listen(PORT, () => console.log(`Stub upstream on http://localhost:${PORT}`));
@@ -1,10 +1,65 @@
-import { useState, useEffect, useMemo } from 'react';
-import { MapContainer, TileLayer, CircleMarker, Popup, useMap } from 'react-leaflet';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { MapContainer, TileLayer, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
-import { fetchConstellationHistory } from './services/constellationApi';
-import type { ConstellationData, BalloonPosition } from './services/constellationApi';
-import { fetchWeatherForPositions, getRateLimitInfo } from './services/weatherApi';
+import {
+  fetchConstellationHistory,
+  getConstellationDiagnostics,
+  loadCachedConstellationHistory,
+  refreshConstellationHistory,
+  reloadConstellationHour,
+} from './services/constellationApi';
+import { getDataSource } from './services/dataSource';
+import type { ConstellationData, BalloonPosition, HourDiagnostics } from './services/constellationApi';
+import { fetchWeatherForPositions, getRateLimitInfo, weatherKey } from './services/weatherApi';
 import type { WeatherData } from './services/weatherApi';
+import { startFromTrack } from './services/prediction';
+import { loadGeofences, saveGeofences } from './services/geofenceStore';
+import type { PredictedTrack, PredictionStart } from './services/prediction';
+import { buildTracks, findTrack, getTrackId, sightingId } from './utils/tracks';
+import type { TrackSet } from './utils/tracks';
+import { computeKinematics } from './utils/kinematics';
+import { detectAnomalies, getAnomalies } from './utils/anomalies';
+import { LOADING_COLOR } from './utils/colors';
+import { createColorScale, metricValue } from './utils/colorScale';
+import type { ColorScaleOptions } from './utils/colorScale';
+import { createGridIndex } from './utils/spatialIndex';
+import { longitudeDelta, normalizeLongitude, sphericalCentroid, wrappedBounds } from './utils/geo';
+import type { LatLon, WrappedBounds } from './utils/geo';
+import TrackLayer from './components/TrackLayer';
+import TrackPanel from './components/TrackPanel';
+import DataStatus from './components/DataStatus';
+import PlaybackLayer from './components/PlaybackLayer';
+import DiagnosticsPanel from './components/DiagnosticsPanel';
+import HourStatusStrip from './components/HourStatusStrip';
+import ExportMenu from './components/ExportMenu';
+import BalloonLayer from './components/BalloonLayer';
+import type { FocusRequest } from './components/BalloonLayer';
+import BalloonTable from './components/BalloonTable';
+import ColorLegend from './components/ColorLegend';
+import ColorControls from './components/ColorControls';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import KinematicsPanel from './components/KinematicsPanel';
+import type { Highlight } from './components/AnalyticsDashboard';
+import FilterPanel from './components/FilterPanel';
+import RegionDrawer from './components/RegionDrawer';
+import type { DrawMode } from './components/RegionDrawer';
+import PredictionPanel from './components/PredictionPanel';
+import PredictionLayer from './components/PredictionLayer';
+import GeofencePanel from './components/GeofencePanel';
+import GeofenceLayer from './components/GeofenceLayer';
+import { addGeofences, detectGeofenceEvents } from './utils/geofences';
+import type { GeofenceEvent } from './utils/geofences';
+import { useGeofenceAlerts } from './hooks/useGeofenceAlerts';
+import DiffPanel from './components/DiffPanel';
+import DiffLayer from './components/DiffLayer';
+import { diffHours } from './utils/hourDiff';
+import { addCondition, isFilterActive, matchesFilter, usesWeather } from './utils/filters';
+import type { FilterCondition, FilterState } from './utils/filters';
+import { PLAYBACK_SPEEDS, usePlayback } from './hooks/usePlayback';
+import { indexTracksByHour, interpolateFrame } from './utils/playback';
+import { useUrlSync } from './hooks/useUrlSync';
+import { hourForTime, parseUrlState } from './utils/urlState';
+import type { MapView, UrlState } from './utils/urlState';
 import 'leaflet/dist/leaflet.css';
 import './App.css';
 
@@ -21,16 +76,100 @@ const DefaultIcon = L.icon({
 
 L.Marker.prototype.options.icon = DefaultIcon;
 
-// Update map center
-function MapUpdater({ center }: { center: [number, number] }) {
+// How often to look for a new hour file and revalidate weather
+const REFRESH_INTERVAL = 5 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const dataSource = getDataSource();
+
+// Web Mercator can't show the poles
+const MAX_MAP_LAT = 85;
+
+function sameView(a: MapView, b: MapView): boolean {
+  return Math.abs(a.lat - b.lat) < 1e-4 && Math.abs(longitudeDelta(a.lon, b.lon)) < 1e-4 && a.zoom === b.zoom;
+}
+
+// Longitude moved onto the world copy nearest the current view, so recentring
+// across the antimeridian doesn't spin the map round the globe
+function nearestCopy(map: L.Map, lon: number): number {
+  const current = map.getCenter().lng;
+  return current + longitudeDelta(current, lon);
+}
+
+// Shown when a linked or restored hour has left the loaded window
+function missingHourNotice(time: Date, history: ConstellationData[], shownHour: number): string | null {
+  const shown = history.find((d) => d.hour === shownHour);
+  if (!shown) return null;
+  const utc = (t: Date) => t.toISOString().slice(11, 16);
+  return `The ${utc(time)} UTC snapshot is no longer loaded; showing ${utc(shown.timestamp)} UTC instead.`;
+}
+
+function clampLat(lat: number): number {
+  return Math.max(-MAX_MAP_LAT, Math.min(MAX_MAP_LAT, lat));
+}
+
+// Keeps the map and the view state in step. The map is fitted to the
+// constellation once on load (unless a link supplied a view) and whenever a
+// fit is requested, and only recentres on hour changes while following.
+function MapUpdater({ center, bounds, follow, fitRequest, focus, view, onViewChange }: {
+  center: LatLon | null;
+  bounds: WrappedBounds | null;
+  follow: boolean;
+  fitRequest: number;
+  focus: FocusRequest | null;
+  view: MapView | null;
+  onViewChange: (view: MapView) => void;
+}) {
   const map = useMap();
+  const fittedRequestRef = useRef(view ? 0 : -1);
+
+  useEffect(() => {
+    if (!bounds || fittedRequestRef.current === fitRequest) return;
+    fittedRequestRef.current = fitRequest;
+    const mid = (bounds.west + bounds.east) / 2;
+    const shift = nearestCopy(map, mid) - mid;
+    map.fitBounds(
+      [
+        [clampLat(bounds.south), bounds.west + shift],
+        [clampLat(bounds.north), bounds.east + shift],
+      ],
+      { padding: [40, 40], maxZoom: 6 }
+    );
+  }, [map, bounds, fitRequest]);
+
+  // The balloon's own longitude, since markers are only drawn on the central copy
+  useEffect(() => {
+    if (focus) map.flyTo([clampLat(focus.latitude), focus.longitude], Math.max(map.getZoom(), 5));
+  }, [map, focus]);
+
   useEffect(() => {
-    map.setView(center, map.getZoom());
-  }, [map, center]);
+    if (follow && center) map.setView([clampLat(center.latitude), nearestCopy(map, center.longitude)], map.getZoom());
+  }, [map, follow, center]);
+
+  // Views restored from the URL (on load or back/forward)
+  useEffect(() => {
+    if (!view) return;
+    const current = map.getCenter();
+    if (!sameView(view, { lat: current.lat, lon: current.lng, zoom: map.getZoom() })) {
+      map.setView([view.lat, view.lon], view.zoom);
+    }
+  }, [map, view]);
+
+  useMapEvents({
+    moveend: () => {
+      const current = map.getCenter();
+      const next = { lat: current.lat, lon: normalizeLongitude(current.lng), zoom: map.getZoom() };
+      if (!view || !sameView(view, next)) onViewChange(next);
+    },
+  });
+
   return null;
 }
 
 function App() {
+  // View restored from a shared link
+  const [initialUrlState] = useState(() => parseUrlState(window.location.search));
   const [history, setHistory] = useState<ConstellationData[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedHour, setSelectedHour] = useState(0);
@@ -39,43 +178,262 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   const [rateLimitInfo, setRateLimitInfo] = useState<{ isRateLimited: boolean; retryAfter?: number; resetTime?: Date }>({ isRateLimited: false });
   const [currentTime, setCurrentTime] = useState(new Date());
+  const [selectedTrackId, setSelectedTrackId] = useState<string | null>(initialUrlState.trackId);
+  const [showTracks, setShowTracks] = useState(initialUrlState.showTracks);
+  const [mapView, setMapView] = useState<MapView | null>(initialUrlState.view);
+  const [follow, setFollow] = useState(initialUrlState.follow);
+  const [fitRequest, setFitRequest] = useState(0);
+  const [colorOptions, setColorOptions] = useState<ColorScaleOptions>(initialUrlState.color);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showMotion, setShowMotion] = useState(false);
+  const [showPrediction, setShowPrediction] = useState(false);
+  const [showTable, setShowTable] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+  const [predictions, setPredictions] = useState<PredictedTrack[]>([]);
+  const [hideAnomalies, setHideAnomalies] = useState(initialUrlState.hideAnomalies);
+  const [highlight, setHighlight] = useState<Highlight | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [refreshTick, setRefreshTick] = useState(0);
+  const weatherTimeRef = useRef<number | null>(null);
+  const [diagnostics, setDiagnostics] = useState<HourDiagnostics[]>([]);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [loadRequest, setLoadRequest] = useState(0);
+  const [hourNotice, setHourNotice] = useState<string | null>(null);
+  const [lenient, setLenient] = useState(false);
+  const [networkLoaded, setNetworkLoaded] = useState(false); // first network load finished (or failed)
+  const [filter, setFilter] = useState<FilterState>(initialUrlState.filter);
+  const [showFilters, setShowFilters] = useState(false);
+  const [drawMode, setDrawMode] = useState<DrawMode | null>(null);
+  const [fences, setFences] = useState(loadGeofences);
+  const [showGeofences, setShowGeofences] = useState(false);
+  const [drawingFence, setDrawingFence] = useState(false);
+  const [comparePair, setComparePair] = useState<{ a: number; b: number } | null>(null);
+
+  // Keeps the status strip live while hours load and retry
+  const syncDiagnostics = useCallback(() => setDiagnostics(getConstellationDiagnostics()), []);
+
+  // Read by the load effect, which reruns on Retry but not on a lenient toggle
+  const lenientRef = useRef(lenient);
+  useEffect(() => {
+    lenientRef.current = lenient;
+  }, [lenient]);
 
   useEffect(() => {
+    // Linked hours are absolute, so map them onto each window as it arrives
+    const applyLinkedTime = (data: ConstellationData[]) => {
+      if (!initialUrlState.time) return;
+      const hour = hourForTime(data, initialUrlState.time);
+      if (hour !== null) {
+        setSelectedHour(hour);
+        setHourNotice(null);
+        return;
+      }
+      // Not loaded: show the latest hour and say so (the network load may still have it)
+      if (data.length === 0) return;
+      const latest = Math.min(...data.map((d) => d.hour));
+      setSelectedHour(latest);
+      setHourNotice(missingHourNotice(initialUrlState.time, data, latest));
+    };
+
     async function loadData() {
+      let hasCached = false;
       try {
         setLoading(true);
         setError(null);
-        const data = await fetchConstellationHistory();
+        
+        // Render the cached window straight away, then revalidate
+        const options = { lenient: lenientRef.current, onDiagnostics: syncDiagnostics };
+        const cached = await loadCachedConstellationHistory(options);
+        if (cached.length > 0) {
+          hasCached = true;
+          setHistory(cached);
+          applyLinkedTime(cached);
+          setLoading(false);
+        }
+        
+        setRefreshing(true);
+        const data = await fetchConstellationHistory(options);
         setHistory(data);
+        applyLinkedTime(data);
+        setDiagnostics(getConstellationDiagnostics());
+        setLastUpdated(new Date());
         if (data.length === 0) {
           setError('No constellation data available.');
         }
       } catch (err) {
         console.error('Failed to load data:', err);
-        setError('Failed to load data.');
+        if (!hasCached) {
+          setError('Failed to load data.');
+        }
       } finally {
         setLoading(false);
+        setRefreshing(false);
+        setNetworkLoaded(true);
       }
     }
     loadData();
-  }, []);
+  }, [initialUrlState, loadRequest, syncDiagnostics]);
 
   const currentData = useMemo(() => {
     return history.find((d) => d.hour === selectedHour) || history[0] || null;
   }, [history, selectedHour]);
 
+  // Link positions across hours so each balloon keeps one identity. Each
+  // build inherits the previous one's IDs, so they survive the window rolling.
+  const [tracked, setTracked] = useState<{ history: ConstellationData[]; trackSet: TrackSet }>(() => ({
+    history,
+    trackSet: buildTracks(history),
+  }));
+  let trackSet = tracked.trackSet;
+  if (tracked.history !== history) {
+    trackSet = buildTracks(history, tracked.trackSet);
+    setTracked({ history, trackSet });
+  }
+  const selectedTrack = useMemo(
+    () => (selectedTrackId ? findTrack(trackSet, history, selectedTrackId) : null),
+    [trackSet, history, selectedTrackId]
+  );
+  const activeTrackId = selectedTrack?.id ?? null;
+  // Hold the track's own ID rather than the sighting a link resolved through,
+  // which rolls out of the window long before the track does
+  if (activeTrackId && selectedTrackId !== activeTrackId) setSelectedTrackId(activeTrackId);
+  // Distance, speed, heading and climb rate between consecutive sightings
+  const kinematics = useMemo(() => computeKinematics(trackSet), [trackSet]);
+  const anomalies = useMemo(() => detectAnomalies(history, trackSet, kinematics), [history, trackSet, kinematics]);
+
+  // Entry/exit crossings for every fence across the loaded hours
+  const geofenceEvents = useMemo(() => detectGeofenceEvents(fences, trackSet), [fences, trackSet]);
+  // Not the cached window: crossings the network load adds to it aren't news
+  useGeofenceAlerts(geofenceEvents, fences, networkLoaded);
+
+  useEffect(() => {
+    saveGeofences(fences);
+  }, [fences]);
+
+  const maxHour = useMemo(() => (history.length > 0 ? Math.max(...history.map((d) => d.hour)) : 0), [history]);
+  const playback = usePlayback(maxHour, setSelectedHour);
+  const { playing, pause } = playback;
+
+  // Read by the refresh interval, which shouldn't restart on every hour change
+  const selectedHourRef = useRef(selectedHour);
+  useEffect(() => {
+    selectedHourRef.current = selectedHour;
+  }, [selectedHour]);
+
+  const togglePlayback = () => {
+    if (playback.playing) {
+      setSelectedHour(playback.pause());
+    } else {
+      playback.play(selectedHour);
+    }
+  };
+
+  // Roll the 24-hour window forward as new hour files appear. Selection stays
+  // on the same absolute hour, so "Now" becomes "1 hour ago" after a roll.
+  // A replay never changes, so it isn't polled.
+  useEffect(() => {
+    if (history.length === 0 || dataSource.mode === 'replay') return;
+    let cancelled = false;
+
+    const interval = setInterval(async () => {
+      try {
+        setRefreshing(true);
+        const result = await refreshConstellationHistory(history, { lenient, onDiagnostics: syncDiagnostics });
+        if (cancelled) return;
+        setDiagnostics(getConstellationDiagnostics());
+        if (result) {
+          setHistory(result.history);
+          // Stay on the same absolute hour; if it has left the window (or
+          // didn't load), move to the nearest remaining one and say so
+          const wanted = selectedHourRef.current + result.shiftedBy;
+          const next = result.history.reduce(
+            (best, d) => (Math.abs(d.hour - wanted) < Math.abs(best - wanted) ? d.hour : best),
+            result.history[0]?.hour ?? 0
+          );
+          setSelectedHour(next);
+          const shown = result.history.find((d) => d.hour === next);
+          if (shown && next !== wanted) {
+            const utc = (hour: number) =>
+              new Date(shown.timestamp.getTime() - (hour - next) * HOUR_MS).toISOString().slice(11, 16);
+            setHourNotice(`The ${utc(wanted)} UTC snapshot is no longer loaded; showing ${utc(next)} UTC instead.`);
+          }
+          // The comparison follows its absolute hours, and ends once one rolls out
+          setComparePair((pair) =>
+            pair && Math.max(pair.a, pair.b) + result.shiftedBy <= 23
+              ? { a: pair.a + result.shiftedBy, b: pair.b + result.shiftedBy }
+              : null
+          );
+          setLastUpdated(new Date());
+        }
+        setRefreshTick((tick) => tick + 1);
+      } catch (err) {
+        console.error('Refresh failed:', err);
+      } finally {
+        if (!cancelled) setRefreshing(false);
+      }
+    }, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [history, lenient, syncDiagnostics]);
+
+  // Re-download and re-parse every hour when lenient mode is toggled
+  const changeLenient = async (value: boolean) => {
+    setLenient(value);
+    setRefreshing(true);
+    try {
+      const data = await fetchConstellationHistory({ lenient: value, onDiagnostics: syncDiagnostics });
+      setHistory(data);
+      setDiagnostics(getConstellationDiagnostics());
+      setLastUpdated(new Date());
+    } catch (err) {
+      console.error('Reload failed:', err);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  // Re-fetch a single hour from the status strip, leaving the rest in place
+  const reloadHour = async (hour: number) => {
+    setRefreshing(true);
+    try {
+      const updated = await reloadConstellationHour(history, hour, { lenient, onDiagnostics: syncDiagnostics });
+      if (updated) {
+        setHistory(updated);
+        setLastUpdated(new Date());
+      }
+    } catch (err) {
+      console.error(`Reload of hour ${hour} failed:`, err);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const problemHours = diagnostics.filter(
+    (d) => !d.pending && (d.error || d.totalRows === 0 || d.acceptedRows < d.totalRows)
+  ).length;
+
   useEffect(() => {
     if (!currentData?.positions.length) return;
+    let cancelled = false;
 
     async function loadWeather() {
       setLoadingWeather(true);
-      setWeatherData(new Map());
+      // Keep what is shown while revalidating the same hour; clear on a new hour
+      if (weatherTimeRef.current !== currentData.timestamp.getTime()) {
+        weatherTimeRef.current = currentData.timestamp.getTime();
+        setWeatherData(new Map());
+      }
       
       try {
         await fetchWeatherForPositions(
-          currentData.positions.map((p) => ({ latitude: p.latitude, longitude: p.longitude })),
-          20,
+          currentData.positions.map((p) => ({ latitude: p.latitude, longitude: p.longitude, altitude: p.altitude })),
+          currentData.timestamp,
           (batchData) => {
+            if (cancelled) return;
             // Update weather data incrementally as each batch completes
             setWeatherData((prev) => {
               const updated = new Map(prev);
@@ -89,14 +447,18 @@ function App() {
       } catch (err) {
         console.error('Weather load failed:', err);
       } finally {
-        setLoadingWeather(false);
+        if (!cancelled) setLoadingWeather(false);
         // Check rate limit after loading
         const limitInfo = getRateLimitInfo();
         setRateLimitInfo(limitInfo);
       }
     }
     loadWeather();
-  }, [currentData]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentData, refreshTick]);
 
   // Check rate limit status periodically and update current time for countdown
   useEffect(() => {
@@ -109,35 +471,217 @@ function App() {
     return () => clearInterval(interval);
   }, []);
 
-  const mapCenter: [number, number] = useMemo(() => {
-    if (!currentData?.positions.length) return [0, 0];
-    const avgLat = currentData.positions.reduce((sum, p) => sum + p.latitude, 0) / currentData.positions.length;
-    const avgLon = currentData.positions.reduce((sum, p) => sum + p.longitude, 0) / currentData.positions.length;
-    return [avgLat, avgLon];
-  }, [currentData]);
-
-  const getWeather = (position: BalloonPosition): WeatherData | null => {
-    const key = `${position.latitude.toFixed(2)},${position.longitude.toFixed(2)}`;
-    const weather = weatherData.get(key);
-    if (!weather) {
-      // Try to find closest match (within 0.1 degree)
-      for (const [mapKey, mapWeather] of weatherData.entries()) {
-        const [lat, lon] = mapKey.split(',').map(Number);
-        if (Math.abs(lat - position.latitude) < 0.1 && Math.abs(lon - position.longitude) < 0.1) {
-          return mapWeather;
-        }
-      }
+  // Spatial index over loaded weather for near-miss lookups
+  const weatherIndex = useMemo(
+    () => createGridIndex(Array.from(weatherData.entries()), ([, w]) => w, 0.5),
+    [weatherData]
+  );
+
+  const getWeather = useCallback(
+    (position: BalloonPosition, time: Date): WeatherData | null => {
+      const key = weatherKey(position.latitude, position.longitude, position.altitude, time);
+      const weather = weatherData.get(key);
+      if (weather) return weather;
+
+      // Closest match within 0.1 degree at the same pressure level and hour
+      const suffix = key.split(',').slice(2).join(',');
+      const match = weatherIndex.nearest(position, 0.1, ([mapKey]) => mapKey.split(',').slice(2).join(',') === suffix);
+      return match ? match[1] : null;
+    },
+    [weatherData, weatherIndex]
+  );
+
+  const narrowed = isFilterActive(filter) || hideAnomalies;
+  const flaggedCount = currentData ? anomalies.flaggedByHour.get(currentData.hour) ?? 0 : 0;
+
+  // Whether a position passes the filters (and isn't a hidden anomaly)
+  const passesFilters = useCallback(
+    (data: ConstellationData, index: number, weather: WeatherData | null) =>
+      (!hideAnomalies || getAnomalies(anomalies, data.hour, index).length === 0) &&
+      matchesFilter(data.positions[index], weather, filter),
+    [hideAnomalies, anomalies, filter]
+  );
+  const isShown = useCallback(
+    (data: ConstellationData, index: number) =>
+      passesFilters(data, index, getWeather(data.positions[index], data.timestamp)),
+    [passesFilters, getWeather]
+  );
+
+  // Weather is only loaded for the selected hour, so a weather filter can't
+  // be applied to the others
+  const countable = useMemo(
+    () => (usesWeather(filter) ? (data: ConstellationData) => data === currentData : undefined),
+    [filter, currentData]
+  );
+
+  // Snapshot indices that are shown (null when nothing narrows the view)
+  const visibleIndices = useMemo(() => {
+    if (!currentData || !narrowed) return null;
+    return currentData.positions.flatMap((_, index) => (isShown(currentData, index) ? [index] : []));
+  }, [currentData, narrowed, isShown]);
+
+  const shownIndices = useMemo(
+    () => visibleIndices ?? currentData?.positions.map((_, index) => index) ?? [],
+    [currentData, visibleIndices]
+  );
+
+  // Centre and extent of the balloons shown, for following and fitting
+  const shownPositions = useMemo(
+    () => (currentData ? shownIndices.map((index) => currentData.positions[index]) : []),
+    [currentData, shownIndices]
+  );
+  const constellationCenter = useMemo(() => sphericalCentroid(shownPositions), [shownPositions]);
+  const constellationBounds = useMemo(() => wrappedBounds(shownPositions), [shownPositions]);
+
+  // Chart highlights only apply to the hour they were made in
+  const highlightedIndices = useMemo(
+    () => (highlight && currentData && highlight.hour === currentData.hour ? new Set(highlight.indices) : null),
+    [highlight, currentData]
+  );
+
+  const getCurrentWeather = useCallback(
+    (position: BalloonPosition) => (currentData ? getWeather(position, currentData.timestamp) : null),
+    [currentData, getWeather]
+  );
+
+  // Predictions start from each balloon's latest sighting
+  const selectedStart = useMemo(() => {
+    if (!selectedTrack) return null;
+    return startFromTrack(selectedTrack, selectedTrack.points[selectedTrack.points.length - 1].hour, kinematics);
+  }, [selectedTrack, kinematics]);
+
+  const shownStarts = useMemo(() => {
+    if (history.length === 0) return [];
+    const latest = history.reduce((a, b) => (b.hour < a.hour ? b : a));
+    return latest.positions.flatMap((_, index): PredictionStart[] => {
+      const trackId = isShown(latest, index) ? getTrackId(trackSet, latest.hour, index) : undefined;
+      const track = trackId ? trackSet.byId.get(trackId) : undefined;
+      const start = track ? startFromTrack(track, latest.hour, kinematics) : null;
+      return start ? [start] : [];
+    });
+  }, [history, isShown, trackSet, kinematics]);
+
+  const hourGeofenceEvents = useMemo(
+    () => (currentData ? geofenceEvents.filter((e) => e.hour === currentData.hour) : []),
+    [geofenceEvents, currentData]
+  );
+
+  // Hour comparison replaces the balloon markers while it's open
+  const hourDiff = useMemo(
+    () => (comparePair ? diffHours(history, trackSet, comparePair.a, comparePair.b, narrowed ? isShown : undefined) : null),
+    [comparePair, history, trackSet, narrowed, isShown]
+  );
+
+  const toggleCompare = () => {
+    if (comparePair) {
+      setComparePair(null);
+      return;
     }
-    return weather || null;
+    if (playback.playing) setSelectedHour(playback.pause());
+    const hour = currentData?.hour ?? selectedHour;
+    const earlier = history.some((d) => d.hour === hour + 1) ? hour + 1 : maxHour;
+    setComparePair({ a: earlier, b: hour });
+  };
+
+  const clearFocus = useCallback(() => setFocusRequest(null), []);
+
+  const focusBalloon = (trackId: string, index: number) => {
+    if (!currentData) return;
+    const position = currentData.positions[index];
+    setSelectedTrackId(trackId);
+    setFocusRequest((current) => ({
+      trackId,
+      latitude: position.latitude,
+      longitude: position.longitude,
+      seq: (current?.seq ?? 0) + 1,
+    }));
+  };
+
+  // Left/right step through the loaded hours from anywhere outside form
+  // fields and the map (which pans with the arrow keys itself)
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+      if (e.defaultPrevented || e.altKey || e.ctrlKey || e.metaKey) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, select, textarea, .leaflet-container')) return;
+
+      const hours = history.map((d) => d.hour).sort((a, b) => a - b);
+      const from = playing ? pause() : (currentData?.hour ?? selectedHour);
+      // Hours count back from now, so left (earlier) is the larger hour
+      const next = hours[hours.indexOf(from) + (e.key === 'ArrowLeft' ? 1 : -1)];
+      e.preventDefault();
+      setSelectedHour(next ?? from);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [history, currentData, selectedHour, playing, pause]);
+
+  const selectGeofenceEvent = (event: GeofenceEvent) => {
+    if (playback.playing) playback.pause();
+    setSelectedHour(event.hour);
+    setSelectedTrackId(event.trackId);
   };
 
+  const visibleTrackIds = useMemo(() => {
+    if (!currentData || !visibleIndices) return null;
+    return new Set(visibleIndices.map((index) => getTrackId(trackSet, currentData.hour, index)));
+  }, [currentData, visibleIndices, trackSet]);
+
+  const visibleTracks = useMemo(
+    () => (visibleTrackIds ? trackSet.tracks.filter((t) => visibleTrackIds.has(t.id)) : trackSet.tracks),
+    [trackSet, visibleTrackIds]
+  );
+
+  // Playback animates the same tracks the filters leave on the map
+  const trackHourIndex = useMemo(() => indexTracksByHour(visibleTracks), [visibleTracks]);
+  const playbackFrame = useMemo(
+    () => (playback.playing ? interpolateFrame(trackHourIndex, playback.time) : null),
+    [playback.playing, playback.time, trackHourIndex]
+  );
+
+  const colorValue = useCallback(
+    (position: BalloonPosition, index: number, weather: WeatherData | null) => {
+      if (!currentData) return null;
+      const trackId = getTrackId(trackSet, currentData.hour, index);
+      const step = trackId ? kinematics.get(trackId)?.byHour.get(currentData.hour) : undefined;
+      return metricValue(colorOptions.metric, position, weather, step?.speedKmh ?? null);
+    },
+    [colorOptions.metric, currentData, trackSet, kinematics]
+  );
+
+  // Data-driven domains follow the balloons currently shown
+  const colorScale = useMemo(() => {
+    if (!currentData || colorOptions.domain === 'fixed') return createColorScale(colorOptions, []);
+    const values = shownIndices
+      .map((index) => {
+        const position = currentData.positions[index];
+        return colorValue(position, index, getWeather(position, currentData.timestamp));
+      })
+      .filter((value): value is number => value !== null);
+    return createColorScale(colorOptions, values);
+  }, [colorOptions, currentData, shownIndices, colorValue, getWeather]);
+
+  const markerColor = useCallback(
+    (position: BalloonPosition, index: number, weather: WeatherData | null) => {
+      const value = colorValue(position, index, weather);
+      return value === null ? LOADING_COLOR : colorScale.color(value);
+    },
+    [colorValue, colorScale]
+  );
+
   const stats = useMemo(() => {
     if (!currentData) return null;
 
-    const positions = currentData.positions;
+    const positions = visibleIndices ? visibleIndices.map((i) => currentData.positions[i]) : currentData.positions;
+    if (positions.length === 0) {
+      return { balloonCount: 0, avgAltitude: 0, minAltitude: 0, maxAltitude: 0, avgTemp: null };
+    }
     const altitudes = positions.map((p) => p.altitude);
     const avgAltitude = altitudes.reduce((sum, alt) => sum + alt, 0) / altitudes.length;
-    const weatherValues = Array.from(weatherData.values());
+    const weatherValues = positions
+      .map((p) => getWeather(p, currentData.timestamp))
+      .filter((w): w is WeatherData => w !== null);
     const avgTemp = weatherValues.length > 0
       ? weatherValues.reduce((sum, w) => sum + w.temperature, 0) / weatherValues.length
       : null;
@@ -147,9 +691,47 @@ function App() {
       avgAltitude: Math.round(avgAltitude),
       minAltitude: Math.round(Math.min(...altitudes)),
       maxAltitude: Math.round(Math.max(...altitudes)),
-      avgTemp: avgTemp ? Math.round(avgTemp) : null,
+      avgTemp: avgTemp !== null ? Math.round(avgTemp) : null,
     };
-  }, [currentData, weatherData]);
+  }, [currentData, visibleIndices, getWeather]);
+
+  const urlState: UrlState | null = useMemo(() => {
+    // Wait for the initial fit so loading the page writes a single entry
+    if (!currentData || (!mapView && constellationBounds)) return null;
+    return {
+      time: currentData.timestamp,
+      view: mapView,
+      follow,
+      // The latest sighting, so the link resolves for as long as possible
+      trackId: selectedTrack ? sightingId(selectedTrack.points[selectedTrack.points.length - 1]) : selectedTrackId,
+      showTracks,
+      hideAnomalies,
+      color: colorOptions,
+      filter,
+      source: initialUrlState.source,
+    };
+  }, [initialUrlState, currentData, constellationBounds, mapView, follow, selectedTrack, selectedTrackId, showTracks, hideAnomalies, colorOptions, filter]);
+
+  // Back/forward restores the view recorded in that history entry
+  const restoreUrlState = useCallback(
+    (state: UrlState) => {
+      if (state.time) {
+        const hour = hourForTime(history, state.time);
+        if (hour !== null) setSelectedHour(hour);
+        else setHourNotice(missingHourNotice(state.time, history, selectedHourRef.current));
+      }
+      setMapView(state.view);
+      setFollow(state.follow);
+      setSelectedTrackId(state.trackId);
+      setShowTracks(state.showTracks);
+      setHideAnomalies(state.hideAnomalies);
+      setColorOptions(state.color);
+      setFilter(state.filter);
+    },
+    [history]
+  );
+
+  useUrlSync(urlState, restoreUrlState);
 
   if (loading) {
     return (
@@ -168,7 +750,7 @@ function App() {
         <div className="error">
           <h1>WindBorne Constellation Tracker</h1>
           <p>{error || 'No data available'}</p>
-          <button onClick={() => window.location.reload()}>Retry</button>
+          <button onClick={() => setLoadRequest((n) => n + 1)}>Retry</button>
         </div>
       </div>
     );
@@ -232,20 +814,67 @@ function App() {
       <div className="controls-panel">
         <div className="time-control">
           <label htmlFor="hour-slider">
-            Time: {selectedHour === 0 ? 'Now' : `${selectedHour} hour${selectedHour > 1 ? 's' : ''} ago`}
+            {playback.playing ? (
+              `Time: ${playback.time.toFixed(1)} hours ago`
+            ) : (
+              <>
+                Time: {selectedHour === 0 ? 'Now' : `${selectedHour} hour${selectedHour > 1 ? 's' : ''} ago`}
+                {currentData && ` (${currentData.timestamp.toISOString().slice(0, 16).replace('T', ' ')} UTC)`}
+              </>
+            )}
           </label>
           <input
             id="hour-slider"
             type="range"
             min="0"
-            max={Math.max(...history.map((d) => d.hour))}
-            value={selectedHour}
-            onChange={(e) => setSelectedHour(Number(e.target.value))}
+            max={maxHour}
+            step={playback.playing ? 'any' : 1}
+            value={playback.playing ? playback.time : selectedHour}
+            onChange={(e) => {
+              if (playback.playing) playback.pause();
+              setSelectedHour(Math.round(Number(e.target.value)));
+            }}
             className="slider"
           />
+          <HourStatusStrip
+            diagnostics={diagnostics}
+            selectedHour={currentData?.hour ?? selectedHour}
+            onSelectHour={(hour) => {
+              if (playback.playing) playback.pause();
+              setSelectedHour(hour);
+            }}
+            onRetry={reloadHour}
+          />
+          {hourNotice && (
+            <p className="hour-notice">
+              {hourNotice}
+              <button onClick={() => setHourNotice(null)} className="track-panel-close" aria-label="Dismiss">
+                ×
+              </button>
+            </p>
+          )}
           <div className="time-labels">
             <span>Now</span>
-            <span>{Math.max(...history.map((d) => d.hour))}h ago</span>
+            <span>{maxHour}h ago</span>
+          </div>
+          <div className="playback-controls">
+            <button onClick={togglePlayback} className="playback-button">
+              {playback.playing ? '⏸ Pause' : '▶ Play'}
+            </button>
+            <label>
+              Speed
+              <select value={playback.speed} onChange={(e) => playback.setSpeed(Number(e.target.value))}>
+                {PLAYBACK_SPEEDS.map((speed) => (
+                  <option key={speed} value={speed}>
+                    {speed} h/s
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <input type="checkbox" checked={playback.loop} onChange={(e) => playback.setLoop(e.target.checked)} />
+              Loop
+            </label>
           </div>
         </div>
 
@@ -272,77 +901,296 @@ function App() {
           </div>
         )}
 
+        <DataStatus
+          history={history}
+          weatherData={weatherData}
+          lastUpdated={lastUpdated}
+          refreshing={refreshing}
+          source={dataSource}
+        />
+
+        <ExportMenu
+          history={history}
+          currentData={currentData}
+          trackSet={trackSet}
+          getWeather={(data, index) => getWeather(data.positions[index], data.timestamp)}
+          include={narrowed ? passesFilters : undefined}
+        />
+
+        <button onClick={() => setShowTable((show) => !show)} className="panel-toggle">
+          Table
+        </button>
+
+        <button onClick={() => setShowFilters((show) => !show)} className="panel-toggle">
+          Filters{isFilterActive(filter) && ` (${filter.conditions.length})`}
+        </button>
+
+        <button onClick={() => setShowGeofences((show) => !show)} className="panel-toggle">
+          Geofences{fences.length > 0 && ` (${fences.length})`}
+        </button>
+
+        <button onClick={toggleCompare} className="panel-toggle">
+          {comparePair ? 'Stop comparing' : 'Compare hours'}
+        </button>
+
+        <button onClick={() => setShowAnalytics((show) => !show)} className="panel-toggle">
+          {showAnalytics ? 'Hide analytics' : 'Analytics'}
+        </button>
+
+        <button onClick={() => setShowMotion((show) => !show)} className="panel-toggle">
+          Motion
+        </button>
+
+        <button onClick={() => setShowPrediction((show) => !show)} className="panel-toggle">
+          Predict{predictions.length > 0 && ` (${predictions.length})`}
+        </button>
+
+        <button onClick={() => setShowDiagnostics((show) => !show)} className="panel-toggle">
+          Data quality{problemHours > 0 && ` (${problemHours} hour${problemHours !== 1 ? 's' : ''} with issues)`}
+        </button>
+
+        <ColorControls options={colorOptions} onChange={setColorOptions} />
+
+        <label className="toggle">
+          <input type="checkbox" checked={hideAnomalies} onChange={(e) => setHideAnomalies(e.target.checked)} />
+          Hide anomalies ({flaggedCount} flagged)
+        </label>
+
+        <button onClick={() => setFitRequest((n) => n + 1)} className="panel-toggle">
+          Fit to constellation
+        </button>
+
+        <label className="toggle">
+          <input type="checkbox" checked={follow} onChange={(e) => setFollow(e.target.checked)} />
+          Follow
+        </label>
+
+        <label className="toggle">
+          <input type="checkbox" checked={showTracks} onChange={(e) => setShowTracks(e.target.checked)} />
+          Show tracks
+        </label>
+
         {loadingWeather && <div className="weather-loading">Loading weather...</div>}
       </div>
 
+      {showAnalytics && currentData && (
+        <AnalyticsDashboard
+          history={history}
+          currentData={currentData}
+          indices={shownIndices}
+          include={narrowed ? isShown : undefined}
+          countable={countable}
+          getWeather={getCurrentWeather}
+          highlight={highlight}
+          onSelectHour={(hour) => {
+            if (playback.playing) playback.pause();
+            setSelectedHour(hour);
+          }}
+          onHighlight={setHighlight}
+          onSelectBalloon={(index) => setSelectedTrackId(getTrackId(trackSet, currentData.hour, index) ?? null)}
+          onClose={() => {
+            setShowAnalytics(false);
+            setHighlight(null);
+          }}
+        />
+      )}
+
       <div className="map-container">
-        <MapContainer center={mapCenter} zoom={2} style={{ height: '100%', width: '100%' }} scrollWheelZoom={true}>
-          <MapUpdater center={mapCenter} />
+        <MapContainer
+          center={mapView ? [mapView.lat, mapView.lon] : [0, 0]}
+          zoom={mapView?.zoom ?? 2}
+          style={{ height: '100%', width: '100%' }}
+          scrollWheelZoom={true}
+        >
+          <MapUpdater
+            center={constellationCenter}
+            bounds={constellationBounds}
+            follow={follow}
+            fitRequest={fitRequest}
+            focus={focusRequest}
+            view={mapView}
+            onViewChange={setMapView}
+          />
           <TileLayer
             attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
             url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
           />
           
-          <div className="map-legend">
-            <h4>Temperature</h4>
-            <div className="legend-item">
-              <span className="legend-color" style={{ backgroundColor: '#ff6b6b' }}></span>
-              <span>&gt; 20°C</span>
-            </div>
-            <div className="legend-item">
-              <span className="legend-color" style={{ backgroundColor: '#4ecdc4' }}></span>
-              <span>0-20°C</span>
-            </div>
-            <div className="legend-item">
-              <span className="legend-color" style={{ backgroundColor: '#95a5a6' }}></span>
-              <span>&lt;= 0°C</span>
-            </div>
-            <div className="legend-item">
-              <span className="legend-color" style={{ backgroundColor: '#ffa500' }}></span>
-              <span>Loading...</span>
-            </div>
-          </div>
+          <ColorLegend
+            scale={colorScale}
+            showTracks={showTracks}
+            showPredictions={predictions.length > 0}
+            showDiff={hourDiff !== null}
+          />
+
+          {showTracks && (
+            <TrackLayer tracks={visibleTracks} selectedTrackId={activeTrackId} onSelect={setSelectedTrackId} />
+          )}
           
-          {currentData?.positions.map((position, index) => {
-            const weather = getWeather(position);
-            const hasWeather = weather !== null;
-            const weatherKey = hasWeather ? `${weather!.temperature.toFixed(1)}-${weather!.latitude.toFixed(2)}-${weather!.longitude.toFixed(2)}` : 'loading';
-            const color = hasWeather
-              ? weather!.temperature > 20 ? '#ff6b6b'
-              : weather!.temperature > 0 ? '#4ecdc4'
-              : '#95a5a6'
-              : '#ffa500';
-
-            return (
-              <CircleMarker
-                key={`${position.latitude}-${position.longitude}-${index}-${weatherKey}-${weatherData.size}`}
-                center={[position.latitude, position.longitude]}
-                radius={6}
-                pathOptions={{ color, fillColor: color, fillOpacity: 0.7, weight: 2 }}
-              >
-                <Popup>
-                  <div className="popup-content">
-                    <h3>Balloon #{index + 1}</h3>
-                    <p><strong>Position:</strong> {position.latitude.toFixed(4)}°, {position.longitude.toFixed(4)}°</p>
-                    <p><strong>Altitude:</strong> {Math.round(position.altitude)}m</p>
-                    {weather ? (
-                      <>
-                        <hr />
-                        <h4>Weather</h4>
-                        <p><strong>Temp:</strong> {weather.temperature.toFixed(1)}°C</p>
-                        <p><strong>Wind:</strong> {weather.windSpeed.toFixed(1)} km/h @ {weather.windDirection.toFixed(0)}°</p>
-                        <p><strong>Humidity:</strong> {weather.humidity.toFixed(0)}%</p>
-                        <p><strong>Pressure:</strong> {weather.pressure.toFixed(0)} hPa</p>
-                      </>
-                    ) : (
-                      <p className="no-weather">Weather unavailable</p>
-                    )}
-                  </div>
-                </Popup>
-              </CircleMarker>
-            );
-          })}
+          {fences.length > 0 && (
+            <GeofenceLayer fences={fences} events={hourGeofenceEvents} onSelect={setSelectedTrackId} />
+          )}
+
+          {predictions.length > 0 && <PredictionLayer predictions={predictions} />}
+
+          {playbackFrame && (
+            <PlaybackLayer
+              points={playbackFrame}
+              getColor={colorOptions.metric === 'altitude' ? colorScale.color : undefined}
+            />
+          )}
+
+          {hourDiff && (
+            <DiffLayer diff={hourDiff} history={history} selectedTrackId={activeTrackId} onSelect={setSelectedTrackId} />
+          )}
+
+          {!playbackFrame && !hourDiff && currentData && (
+            <BalloonLayer
+              data={currentData}
+              indices={visibleIndices}
+              trackSet={trackSet}
+              kinematics={kinematics}
+              anomalies={anomalies}
+              historyLength={history.length}
+              getWeather={getWeather}
+              getColor={markerColor}
+              highlighted={highlightedIndices}
+              selectedTrackId={activeTrackId}
+              focus={focusRequest}
+              onFocused={clearFocus}
+              onSelect={setSelectedTrackId}
+            />
+          )}
+          <RegionDrawer
+            key={drawMode ?? 'idle'}
+            mode={drawMode}
+            regions={filter.conditions.filter(
+              (c): c is Extract<FilterCondition, { kind: 'rectangle' | 'polygon' }> => c.kind === 'rectangle' || c.kind === 'polygon'
+            )}
+            onComplete={(region) => {
+              setFilter((current) => addCondition(current, region));
+              setDrawMode(null);
+            }}
+          />
+          <RegionDrawer
+            key={drawingFence ? 'fence' : 'fence-idle'}
+            mode={drawingFence ? 'polygon' : null}
+            regions={[]}
+            onComplete={(region) => {
+              if (region.kind === 'polygon') {
+                setFences((current) =>
+                  addGeofences(current, [{ name: `Geofence ${current.length + 1}`, polygons: [[region.points]] }])
+                );
+              }
+              setDrawingFence(false);
+            }}
+          />
         </MapContainer>
+
+        {showTable && currentData && (
+          <BalloonTable
+            data={currentData}
+            indices={shownIndices}
+            trackSet={trackSet}
+            getWeather={getCurrentWeather}
+            selectedTrackId={activeTrackId}
+            onSelect={focusBalloon}
+            onClose={() => setShowTable(false)}
+          />
+        )}
+
+        {showFilters && (
+          <FilterPanel
+            filter={filter}
+            matchCount={visibleIndices?.length ?? currentData?.positions.length ?? 0}
+            totalCount={currentData?.positions.length ?? 0}
+            drawMode={drawMode}
+            onChange={setFilter}
+            onAdd={(condition) => setFilter((current) => addCondition(current, condition))}
+            onDraw={(mode) => {
+              setDrawMode(mode);
+              setDrawingFence(false);
+            }}
+            onClose={() => {
+              setShowFilters(false);
+              setDrawMode(null);
+            }}
+          />
+        )}
+
+        {comparePair && (
+          <DiffPanel
+            history={history}
+            hourA={comparePair.a}
+            hourB={comparePair.b}
+            diff={hourDiff}
+            selectedTrackId={activeTrackId}
+            onChange={(a, b) => setComparePair({ a, b })}
+            onSelect={setSelectedTrackId}
+            onClose={() => setComparePair(null)}
+          />
+        )}
+
+        {showGeofences && (
+          <GeofencePanel
+            fences={fences}
+            events={geofenceEvents}
+            drawing={drawingFence}
+            onDraw={(drawing) => {
+              setDrawingFence(drawing);
+              setDrawMode(null);
+            }}
+            onAdd={(added) => setFences((current) => addGeofences(current, added))}
+            onRemove={(id) => setFences((current) => current.filter((f) => f.id !== id))}
+            onSelectEvent={selectGeofenceEvent}
+            onClose={() => {
+              setShowGeofences(false);
+              setDrawingFence(false);
+            }}
+          />
+        )}
+
+        {showMotion && (
+          <KinematicsPanel
+            kinematics={kinematics}
+            hour={currentData?.hour ?? selectedHour}
+            selectedTrackId={activeTrackId}
+            onSelect={setSelectedTrackId}
+            onClose={() => setShowMotion(false)}
+          />
+        )}
+
+        {showPrediction && (
+          <PredictionPanel
+            selectedStart={selectedStart}
+            shownStarts={shownStarts}
+            history={history}
+            trackSet={trackSet}
+            kinematics={kinematics}
+            predictionCount={predictions.length}
+            onPredicted={setPredictions}
+            onClose={() => setShowPrediction(false)}
+          />
+        )}
+
+        {showDiagnostics && (
+          <DiagnosticsPanel
+            diagnostics={diagnostics}
+            lenient={lenient}
+            onLenientChange={changeLenient}
+            onClose={() => setShowDiagnostics(false)}
+          />
+        )}
+
+        {selectedTrack && (
+          <TrackPanel
+            track={selectedTrack}
+            kinematics={kinematics.get(selectedTrack.id) ?? null}
+            selectedHour={currentData?.hour ?? selectedHour}
+            onSelectHour={setSelectedHour}
+            onClose={() => setSelectedTrackId(null)}
+          />
+        )}
       </div>
 
       <footer className="app-footer">
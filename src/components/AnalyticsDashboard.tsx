@@ -0,0 +1,211 @@
+import { useMemo, useState } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ResponsiveContainer,
+  Scatter,
+  ScatterChart,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { BalloonPosition, ConstellationData } from '../services/constellationApi';
+import type { WeatherData } from '../services/weatherApi';
+import { altitudeHistogram, countsByHour, formatLatitude, latitudeBands, weatherScatter } from '../utils/analytics';
+import { WEATHER_FIELDS } from '../utils/filters';
+import type { WeatherField } from '../utils/filters';
+
+export interface Highlight {
+  hour: number;
+  label: string;
+  indices: number[];
+}
+
+interface AnalyticsDashboardProps {
+  history: ConstellationData[];
+  currentData: ConstellationData;
+  indices: number[]; // balloons shown in the current hour (after filters)
+  include?: (data: ConstellationData, index: number) => boolean; // the same filters, for any hour
+  countable?: (data: ConstellationData) => boolean; // hours include can be judged for (weather loaded)
+  getWeather: (position: BalloonPosition) => WeatherData | null;
+  highlight: Highlight | null;
+  onSelectHour: (hour: number) => void;
+  onHighlight: (highlight: Highlight | null) => void;
+  onSelectBalloon: (index: number) => void;
+  onClose: () => void;
+}
+
+const BAR_COLOR = '#4ecdc4';
+const ACTIVE_COLOR = '#ffa500';
+const UNKNOWN_COLOR = '#555';
+const AXIS_TICK = { fill: '#ccc', fontSize: 11 };
+const TOOLTIP_STYLE = { background: '#2a2a2a', border: '1px solid #444', fontSize: '0.8rem' };
+
+// Charts for the loaded window and the selected hour. Clicking an hour selects
+// it; clicking a bin highlights its balloons; clicking a point selects one.
+function AnalyticsDashboard({
+  history,
+  currentData,
+  indices,
+  include,
+  countable,
+  getWeather,
+  highlight,
+  onSelectHour,
+  onHighlight,
+  onSelectBalloon,
+  onClose,
+}: AnalyticsDashboardProps) {
+  const [field, setField] = useState<WeatherField>('temperature');
+
+  const hourly = useMemo(
+    () =>
+      countsByHour(history, include, countable).map((h) => ({ ...h, unknown: h.count === null ? h.total : null })),
+    [history, include, countable]
+  );
+  const altitudes = useMemo(() => altitudeHistogram(currentData.positions, indices), [currentData, indices]);
+  const latitudes = useMemo(() => latitudeBands(currentData.positions, indices), [currentData, indices]);
+  const scatter = useMemo(
+    () => weatherScatter(currentData.positions, indices, field, getWeather),
+    [currentData, indices, field, getWeather]
+  );
+
+  const altitudeData = altitudes.map((bin) => ({
+    ...bin,
+    count: bin.indices.length,
+    description: `altitude ${bin.min / 1000}-${bin.max / 1000} km`,
+  }));
+  const latitudeData = latitudes.map((bin) => ({
+    ...bin,
+    count: bin.indices.length,
+    description: `latitude ${formatLatitude(bin.min)} to ${formatLatitude(bin.max)}`,
+  }));
+
+  const isHighlighted = (description: string) =>
+    highlight?.hour === currentData.hour && highlight.label === description;
+  const toggleBin = (bin: { indices: number[]; description: string }) => {
+    onHighlight(
+      isHighlighted(bin.description) || bin.indices.length === 0
+        ? null
+        : { hour: currentData.hour, label: bin.description, indices: bin.indices }
+    );
+  };
+  const unit = WEATHER_FIELDS[field].unit;
+
+  return (
+    <section className="analytics-dashboard">
+      <div className="track-panel-header">
+        <h3>Analytics</h3>
+        {highlight && highlight.hour === currentData.hour && (
+          <span className="track-info">
+            Highlighting {highlight.indices.length} balloon{highlight.indices.length !== 1 ? 's' : ''} ({highlight.label})
+            {' '}
+            <button onClick={() => onHighlight(null)} className="panel-toggle">
+              Clear
+            </button>
+          </span>
+        )}
+        <button onClick={onClose} className="track-panel-close" aria-label="Close analytics">
+          ×
+        </button>
+      </div>
+
+      <div className="analytics-charts">
+        <div className="chart-card">
+          <h4>Balloons per hour (UTC)</h4>
+          <ResponsiveContainer width="100%" height={160}>
+            <BarChart data={hourly}>
+              <CartesianGrid stroke="#444" vertical={false} />
+              <XAxis dataKey="label" tick={AXIS_TICK} interval={3} />
+              <YAxis tick={AXIS_TICK} width={40} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: 'rgba(255, 255, 255, 0.1)' }} />
+              <Bar dataKey="count" name="Balloons" stackId="hour" onClick={(_, i) => onSelectHour(hourly[i].hour)} cursor="pointer">
+                {hourly.map((h) => (
+                  <Cell key={h.hour} fill={h.hour === currentData.hour ? ACTIVE_COLOR : BAR_COLOR} />
+                ))}
+              </Bar>
+              <Bar
+                dataKey="unknown"
+                name="Unknown (no weather loaded)"
+                stackId="hour"
+                fill={UNKNOWN_COLOR}
+                onClick={(_, i) => onSelectHour(hourly[i].hour)}
+                cursor="pointer"
+              />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="chart-card">
+          <h4>Altitude distribution (km)</h4>
+          <ResponsiveContainer width="100%" height={160}>
+            <BarChart data={altitudeData}>
+              <CartesianGrid stroke="#444" vertical={false} />
+              <XAxis dataKey="label" tick={AXIS_TICK} />
+              <YAxis tick={AXIS_TICK} width={40} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: 'rgba(255, 255, 255, 0.1)' }} />
+              <Bar dataKey="count" name="Balloons" onClick={(_, i) => toggleBin(altitudeData[i])} cursor="pointer">
+                {altitudeData.map((bin) => (
+                  <Cell key={bin.min} fill={isHighlighted(bin.description) ? ACTIVE_COLOR : BAR_COLOR} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="chart-card">
+          <h4>Latitude bands</h4>
+          <ResponsiveContainer width="100%" height={160}>
+            <BarChart data={latitudeData}>
+              <CartesianGrid stroke="#444" vertical={false} />
+              <XAxis dataKey="label" tick={AXIS_TICK} interval={1} />
+              <YAxis tick={AXIS_TICK} width={40} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: 'rgba(255, 255, 255, 0.1)' }} />
+              <Bar dataKey="count" name="Balloons" onClick={(_, i) => toggleBin(latitudeData[i])} cursor="pointer">
+                {latitudeData.map((bin) => (
+                  <Cell key={bin.min} fill={isHighlighted(bin.description) ? ACTIVE_COLOR : BAR_COLOR} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="chart-card">
+          <h4>
+            <select value={field} onChange={(e) => setField(e.target.value as WeatherField)} aria-label="Scatter variable">
+              {(Object.keys(WEATHER_FIELDS) as WeatherField[]).map((f) => (
+                <option key={f} value={f}>
+                  {WEATHER_FIELDS[f].label}
+                </option>
+              ))}
+            </select>
+            {' '}vs altitude
+          </h4>
+          {scatter.length === 0 ? (
+            <p className="no-weather">Waiting for weather…</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={160}>
+              <ScatterChart>
+                <CartesianGrid stroke="#444" />
+                <XAxis type="number" dataKey="value" name={WEATHER_FIELDS[field].label} unit={unit} tick={AXIS_TICK} />
+                <YAxis type="number" dataKey="altitude" name="Altitude" unit=" km" tick={AXIS_TICK} width={50} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} />
+                <Scatter
+                  data={scatter}
+                  fill={BAR_COLOR}
+                  onClick={(_, i) => onSelectBalloon(scatter[i].index)}
+                  cursor="pointer"
+                  isAnimationActive={false}
+                />
+              </ScatterChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default AnalyticsDashboard;
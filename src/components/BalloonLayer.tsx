@@ -0,0 +1,209 @@
+import { memo, useEffect, useRef } from 'react';
+import { CircleMarker, Popup, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import type { BalloonPosition, ConstellationData } from '../services/constellationApi';
+import type { WeatherData } from '../services/weatherApi';
+import type { TrackSet } from '../utils/tracks';
+import { getTrackId } from '../utils/tracks';
+import type { KinematicStep, TrackKinematics } from '../utils/kinematics';
+import { compassPoint } from '../utils/geo';
+import { getAnomalies, worstSeverity } from '../utils/anomalies';
+import type { AnomalyFlag, AnomalyReport } from '../utils/anomalies';
+import { ANOMALY_COLORS } from '../utils/colors';
+import type { LatLon } from '../utils/geo';
+
+// A request to fly to a balloon and open its popup; seq makes repeats distinct
+export interface FocusRequest extends LatLon {
+  trackId: string;
+  seq: number;
+}
+
+interface BalloonLayerProps {
+  data: ConstellationData;
+  indices?: number[] | null; // subset of positions to draw (all when omitted)
+  trackSet: TrackSet;
+  kinematics: Map<string, TrackKinematics>;
+  anomalies: AnomalyReport;
+  historyLength: number;
+  getWeather: (position: BalloonPosition, time: Date) => WeatherData | null;
+  getColor: (position: BalloonPosition, index: number, weather: WeatherData | null) => string;
+  highlighted?: Set<number> | null; // emphasise these indices and dim the rest
+  selectedTrackId: string | null;
+  focus?: FocusRequest | null;
+  onFocused?: () => void; // the focused popup is open; clear the request
+  onSelect: (trackId: string | null) => void;
+}
+
+interface BalloonMarkerProps {
+  position: BalloonPosition;
+  index: number;
+  trackId: string | null;
+  trackLength: number;
+  historyLength: number;
+  step: KinematicStep | null;
+  distanceFlown: number | null; // km over the loaded window
+  flags: AnomalyFlag[];
+  weather: WeatherData | null;
+  color: string;
+  emphasis: 'normal' | 'highlight' | 'dim';
+  selected: boolean;
+  focusSeq: number | null;
+  onFocused?: () => void;
+  onSelect: (trackId: string | null) => void;
+}
+
+// One canvas for every marker: thousands of SVG circles are too slow to pan
+const renderer = L.canvas({ padding: 0.5 });
+
+// Memoised so a weather batch only restyles the markers it touched. Keys are
+// stable track IDs, so markers (and any open popup) are never remounted.
+const BalloonMarker = memo(function BalloonMarker({
+  position,
+  index,
+  trackId,
+  trackLength,
+  historyLength,
+  step,
+  distanceFlown,
+  flags,
+  weather,
+  color,
+  emphasis,
+  selected,
+  focusSeq,
+  onFocused,
+  onSelect,
+}: BalloonMarkerProps) {
+  const map = useMap();
+  const markerRef = useRef<L.CircleMarker>(null);
+
+  // Opened once the fly-to settles, so the popup's auto-pan doesn't fight it.
+  // The request is then consumed, so a remounted marker doesn't reopen it.
+  useEffect(() => {
+    if (focusSeq === null) return;
+    const open = () => {
+      markerRef.current?.openPopup();
+      onFocused?.();
+    };
+    map.once('moveend', open);
+    return () => {
+      map.off('moveend', open);
+    };
+  }, [map, focusSeq, onFocused]);
+
+  // Flagged markers get a dashed outline in the severity colour
+  const severity = worstSeverity(flags);
+  let stroke = color;
+  if (emphasis === 'highlight') stroke = '#ffffff';
+  else if (severity) stroke = ANOMALY_COLORS[severity];
+
+  return (
+    <CircleMarker
+      ref={markerRef}
+      center={[position.latitude, position.longitude]}
+      radius={6}
+      pathOptions={{
+        renderer,
+        color: stroke,
+        dashArray: severity ? '4 3' : undefined,
+        fillColor: color,
+        opacity: emphasis === 'dim' ? 0.3 : 1,
+        fillOpacity: emphasis === 'dim' ? 0.15 : 0.7,
+        weight: selected ? 4 : emphasis === 'highlight' || severity ? 3 : 2,
+      }}
+      eventHandlers={{ click: () => onSelect(trackId) }}
+    >
+      <Popup>
+        <div className="popup-content">
+          <h3>Balloon {trackId ?? `#${index + 1}`}</h3>
+          {trackLength > 0 && (
+            <p className="track-info">
+              Tracked for {trackLength} of {historyLength} hours
+              {distanceFlown !== null && distanceFlown > 0 && `, ${Math.round(distanceFlown)} km flown`}
+            </p>
+          )}
+          <p><strong>Position:</strong> {position.latitude.toFixed(4)}°, {position.longitude.toFixed(4)}°</p>
+          <p><strong>Altitude:</strong> {Math.round(position.altitude)}m</p>
+          {flags.map((flag) => (
+            <p key={flag.kind} className={`anomaly ${flag.severity}`}>
+              ⚠ {flag.reason}
+            </p>
+          ))}
+          {step && (
+            <p>
+              <strong>Motion:</strong> {step.speedKmh.toFixed(0)} km/h heading {step.bearing.toFixed(0)}° ({compassPoint(step.bearing)}),
+              {' '}{step.verticalRate >= 0 ? '+' : ''}{step.verticalRate.toFixed(2)} m/s vertical
+              {step.hours > 1 && ` (over ${step.hours}h)`}
+            </p>
+          )}
+          {weather ? (
+            <>
+              <hr />
+              <h4>Weather at {Math.round(weather.pressure)} hPa</h4>
+              <p className="track-info">
+                From {weather.levels.join(' / ')} hPa, geopotential height {Math.round(weather.geopotentialHeight)}m
+                {weather.timestamp !== undefined && `, valid ${new Date(weather.timestamp).toISOString().slice(11, 16)} UTC`}
+              </p>
+              <p><strong>Temp:</strong> {weather.temperature.toFixed(1)}°C</p>
+              <p><strong>Wind:</strong> {weather.windSpeed.toFixed(1)} km/h @ {weather.windDirection.toFixed(0)}°</p>
+              <p><strong>Humidity:</strong> {weather.humidity.toFixed(0)}%</p>
+            </>
+          ) : (
+            <p className="no-weather">Weather unavailable</p>
+          )}
+        </div>
+      </Popup>
+    </CircleMarker>
+  );
+});
+
+function BalloonLayer({
+  data,
+  indices,
+  trackSet,
+  kinematics,
+  anomalies,
+  historyLength,
+  getWeather,
+  getColor,
+  highlighted,
+  selectedTrackId,
+  focus,
+  onFocused,
+  onSelect,
+}: BalloonLayerProps) {
+  const visible = indices ?? data.positions.map((_, index) => index);
+
+  return (
+    <>
+      {visible.map((index) => {
+        const position = data.positions[index];
+        const trackId = getTrackId(trackSet, data.hour, index) ?? null;
+        const weather = getWeather(position, data.timestamp);
+        const motion = trackId ? kinematics.get(trackId) : undefined;
+        return (
+          <BalloonMarker
+            key={trackId ?? `${data.hour}-${index}`}
+            position={position}
+            index={index}
+            trackId={trackId}
+            trackLength={trackId ? trackSet.byId.get(trackId)?.points.length ?? 0 : 0}
+            historyLength={historyLength}
+            step={motion?.byHour.get(data.hour) ?? null}
+            distanceFlown={motion?.totalDistanceKm ?? null}
+            flags={getAnomalies(anomalies, data.hour, index)}
+            weather={weather}
+            color={getColor(position, index, weather)}
+            emphasis={!highlighted ? 'normal' : highlighted.has(index) ? 'highlight' : 'dim'}
+            selected={trackId !== null && trackId === selectedTrackId}
+            focusSeq={focus && trackId === focus.trackId ? focus.seq : null}
+            onFocused={onFocused}
+            onSelect={onSelect}
+          />
+        );
+      })}
+    </>
+  );
+}
+
+export default BalloonLayer;
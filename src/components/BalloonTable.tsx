@@ -0,0 +1,223 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent } from 'react';
+import type { BalloonPosition, ConstellationData } from '../services/constellationApi';
+import type { WeatherData } from '../services/weatherApi';
+import type { TrackSet } from '../utils/tracks';
+import { getTrackId } from '../utils/tracks';
+
+interface BalloonTableProps {
+  data: ConstellationData;
+  indices: number[];
+  trackSet: TrackSet;
+  getWeather: (position: BalloonPosition) => WeatherData | null;
+  selectedTrackId: string | null;
+  onSelect: (trackId: string, index: number) => void;
+  onClose: () => void;
+}
+
+type ColumnKey =
+  | 'latitude'
+  | 'longitude'
+  | 'altitude'
+  | 'temperature'
+  | 'windSpeed'
+  | 'windDirection'
+  | 'humidity'
+  | 'pressure'
+  | 'geopotentialHeight';
+
+interface Row {
+  index: number;
+  trackId: string;
+  values: Record<ColumnKey, number | null>;
+}
+
+const COLUMNS: Array<{ key: ColumnKey; label: string; digits: number }> = [
+  { key: 'latitude', label: 'Lat', digits: 3 },
+  { key: 'longitude', label: 'Lon', digits: 3 },
+  { key: 'altitude', label: 'Alt (m)', digits: 0 },
+  { key: 'temperature', label: '°C', digits: 1 },
+  { key: 'windSpeed', label: 'Wind km/h', digits: 0 },
+  { key: 'windDirection', label: 'Dir °', digits: 0 },
+  { key: 'humidity', label: 'RH %', digits: 0 },
+  { key: 'pressure', label: 'hPa', digits: 0 },
+  { key: 'geopotentialHeight', label: 'Z (m)', digits: 0 },
+];
+
+// Rows are a fixed height so only the ones in view need rendering
+const ROW_HEIGHT = 26;
+const OVERSCAN = 8;
+const PAGE_ROWS = 10;
+
+// Virtualised, sortable and searchable list of the hour's balloons. With the
+// table focused, up/down (and page up/down, home/end) step through the rows.
+function BalloonTable({ data, indices, trackSet, getWeather, selectedTrackId, onSelect, onClose }: BalloonTableProps) {
+  const [sortKey, setSortKey] = useState<ColumnKey | 'trackId'>('trackId');
+  const [descending, setDescending] = useState(false);
+  const [query, setQuery] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(400);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const rows = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const all: Row[] = indices.flatMap((index) => {
+      const position = data.positions[index];
+      const trackId = getTrackId(trackSet, data.hour, index) ?? `#${index + 1}`;
+      if (needle && !trackId.toLowerCase().includes(needle) && `#${index + 1}` !== needle) return [];
+      const weather = getWeather(position);
+      return [
+        {
+          index,
+          trackId,
+          values: {
+            latitude: position.latitude,
+            longitude: position.longitude,
+            altitude: position.altitude,
+            temperature: weather?.temperature ?? null,
+            windSpeed: weather?.windSpeed ?? null,
+            windDirection: weather?.windDirection ?? null,
+            humidity: weather?.humidity ?? null,
+            pressure: weather?.pressure ?? null,
+            geopotentialHeight: weather?.geopotentialHeight ?? null,
+          },
+        },
+      ];
+    });
+
+    // Missing weather sorts last either way
+    return all.sort((a, b) => {
+      if (sortKey === 'trackId') return descending ? b.trackId.localeCompare(a.trackId) : a.trackId.localeCompare(b.trackId);
+      const va = a.values[sortKey];
+      const vb = b.values[sortKey];
+      if (va === null || vb === null) return va === null ? (vb === null ? 0 : 1) : -1;
+      return descending ? vb - va : va - vb;
+    });
+  }, [data, indices, trackSet, getWeather, query, sortKey, descending]);
+
+  const selectedRow = rows.findIndex((row) => row.trackId === selectedTrackId);
+
+  // Focused on open so the arrow keys work straight away
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    element.focus({ preventScroll: true });
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the selected row in view, e.g. after clicking its marker
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || selectedRow === -1) return;
+    const top = selectedRow * ROW_HEIGHT;
+    const headerHeight = ROW_HEIGHT;
+    if (top < element.scrollTop) element.scrollTop = top;
+    else if (top + ROW_HEIGHT > element.scrollTop + element.clientHeight - headerHeight) {
+      element.scrollTop = top + ROW_HEIGHT - element.clientHeight + headerHeight;
+    }
+  }, [selectedRow]);
+
+  const sortBy = (key: ColumnKey | 'trackId') => {
+    if (key === sortKey) {
+      setDescending((d) => !d);
+    } else {
+      setSortKey(key);
+      setDescending(key !== 'trackId');
+    }
+  };
+
+  const selectRow = (row: number) => {
+    const target = rows[Math.max(0, Math.min(rows.length - 1, row))];
+    if (target) onSelect(target.trackId, target.index);
+  };
+
+  const handleKey = (e: KeyboardEvent<HTMLDivElement>) => {
+    const steps: Record<string, number> = {
+      ArrowDown: 1,
+      ArrowUp: -1,
+      PageDown: PAGE_ROWS,
+      PageUp: -PAGE_ROWS,
+      Home: -rows.length,
+      End: rows.length,
+    };
+    if (!(e.key in steps) || rows.length === 0) return;
+    e.preventDefault();
+    selectRow(selectedRow === -1 ? (steps[e.key] > 0 ? 0 : rows.length - 1) : selectedRow + steps[e.key]);
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  return (
+    <aside className="balloon-table-panel">
+      <div className="track-panel-header">
+        <h3>Balloons</h3>
+        <button onClick={onClose} className="track-panel-close" aria-label="Close balloon table">
+          ×
+        </button>
+      </div>
+      <div className="filter-row">
+        <input
+          type="search"
+          placeholder="Search balloon ID or #n"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          aria-label="Search balloons"
+        />
+        <span className="track-info">
+          {rows.length} of {indices.length} · ↑↓ balloons, ←→ hours
+        </span>
+      </div>
+      <div
+        ref={scrollRef}
+        className="balloon-table-scroll"
+        tabIndex={0}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        onKeyDown={handleKey}
+        role="grid"
+        aria-rowcount={rows.length}
+        aria-activedescendant={selectedRow !== -1 ? `balloon-row-${rows[selectedRow].index}` : undefined}
+      >
+        <table className="track-table">
+          <thead>
+            <tr>
+              <th className="sortable" onClick={() => sortBy('trackId')}>
+                Balloon{sortKey === 'trackId' && (descending ? ' ▼' : ' ▲')}
+              </th>
+              {COLUMNS.map((column) => (
+                <th key={column.key} className="sortable" onClick={() => sortBy(column.key)}>
+                  {column.label}
+                  {column.key === sortKey && (descending ? ' ▼' : ' ▲')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {first > 0 && <tr className="spacer" style={{ height: first * ROW_HEIGHT }} aria-hidden="true"></tr>}
+            {rows.slice(first, last).map((row) => (
+              <tr
+                key={row.index}
+                id={`balloon-row-${row.index}`}
+                style={{ height: ROW_HEIGHT }}
+                className={row.trackId === selectedTrackId ? 'active' : undefined}
+                onClick={() => onSelect(row.trackId, row.index)}
+                aria-selected={row.trackId === selectedTrackId}
+              >
+                <td>{row.trackId}</td>
+                {COLUMNS.map((column) => {
+                  const value = row.values[column.key];
+                  return <td key={column.key}>{value === null ? '–' : value.toFixed(column.digits)}</td>;
+                })}
+              </tr>
+            ))}
+            {last < rows.length && <tr className="spacer" style={{ height: (rows.length - last) * ROW_HEIGHT }} aria-hidden="true"></tr>}
+          </tbody>
+        </table>
+      </div>
+    </aside>
+  );
+}
+
+export default BalloonTable;
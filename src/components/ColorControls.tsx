@@ -0,0 +1,58 @@
+import { METRICS, SCHEMES } from '../utils/colorScale';
+import type { ColorMetric, ColorScaleOptions, ColorScheme, DomainMode } from '../utils/colorScale';
+
+interface ColorControlsProps {
+  options: ColorScaleOptions;
+  onChange: (options: ColorScaleOptions) => void;
+}
+
+const schemesOfKind = (kind: 'sequential' | 'diverging') =>
+  (Object.keys(SCHEMES) as ColorScheme[]).filter((scheme) => SCHEMES[scheme].kind === kind);
+
+// Colour-by metric, scheme and domain pickers
+function ColorControls({ options, onChange }: ColorControlsProps) {
+  return (
+    <div className="color-controls">
+      <label>
+        Colour by
+        <select value={options.metric} onChange={(e) => onChange({ ...options, metric: e.target.value as ColorMetric })}>
+          {(Object.keys(METRICS) as ColorMetric[]).map((metric) => (
+            <option key={metric} value={metric}>
+              {METRICS[metric].label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <select
+        value={options.scheme}
+        onChange={(e) => onChange({ ...options, scheme: e.target.value as ColorScheme })}
+        aria-label="Colour scheme"
+      >
+        <optgroup label="Sequential">
+          {schemesOfKind('sequential').map((scheme) => (
+            <option key={scheme} value={scheme}>
+              {SCHEMES[scheme].label}
+            </option>
+          ))}
+        </optgroup>
+        <optgroup label="Diverging">
+          {schemesOfKind('diverging').map((scheme) => (
+            <option key={scheme} value={scheme}>
+              {SCHEMES[scheme].label}
+            </option>
+          ))}
+        </optgroup>
+      </select>
+      <select
+        value={options.domain}
+        onChange={(e) => onChange({ ...options, domain: e.target.value as DomainMode })}
+        aria-label="Colour domain"
+      >
+        <option value="fixed">Fixed range</option>
+        <option value="data">Fit to data</option>
+      </select>
+    </div>
+  );
+}
+
+export default ColorControls;
@@ -0,0 +1,81 @@
+import { ALTITUDE_BANDS, ANOMALY_COLORS, DIFF_COLORS, LOADING_COLOR, PREDICTION_COLOR } from '../utils/colors';
+import { METRICS } from '../utils/colorScale';
+import type { ColorScale } from '../utils/colorScale';
+
+interface ColorLegendProps {
+  scale: ColorScale;
+  showTracks: boolean;
+  showPredictions: boolean;
+  showDiff: boolean;
+}
+
+const GRADIENT_SAMPLES = 12;
+
+// Legend generated from the active marker scale, plus the track altitude bands
+function ColorLegend({ scale, showTracks, showPredictions, showDiff }: ColorLegendProps) {
+  const metric = METRICS[scale.options.metric];
+  const [min, max] = scale.domain;
+  const gradient = Array.from({ length: GRADIENT_SAMPLES }, (_, i) =>
+    scale.color(min + ((max - min) * i) / (GRADIENT_SAMPLES - 1))
+  ).join(', ');
+
+  return (
+    <div className="map-legend">
+      <h4>{metric.label}</h4>
+      <div className="legend-gradient" style={{ background: `linear-gradient(to right, ${gradient})` }}></div>
+      <div className="legend-ticks">
+        {scale.ticks.map((tick, i) => (
+          <span key={i}>{scale.format(tick)}</span>
+        ))}
+      </div>
+      <div className="legend-item">
+        <span className="legend-color" style={{ backgroundColor: LOADING_COLOR }}></span>
+        <span>{metric.needsWeather ? 'Loading / no weather' : 'No data'}</span>
+      </div>
+      <div className="legend-item">
+        <span className="legend-color legend-flag" style={{ borderColor: ANOMALY_COLORS.warning }}></span>
+        <span>Suspect position</span>
+      </div>
+      <div className="legend-item">
+        <span className="legend-color legend-flag" style={{ borderColor: ANOMALY_COLORS.critical }}></span>
+        <span>Implausible position</span>
+      </div>
+      {showDiff && (
+        <>
+          <h4 className="legend-subheading">Hour comparison</h4>
+          <div className="legend-item">
+            <span className="legend-color" style={{ backgroundColor: DIFF_COLORS.appeared }}></span>
+            <span>Appeared</span>
+          </div>
+          <div className="legend-item">
+            <span className="legend-color" style={{ borderColor: DIFF_COLORS.lost }}></span>
+            <span>Lost</span>
+          </div>
+          <div className="legend-item">
+            <span className="legend-line" style={{ backgroundColor: DIFF_COLORS.moved }}></span>
+            <span>Moved (earlier → later)</span>
+          </div>
+        </>
+      )}
+      {showPredictions && (
+        <div className="legend-item">
+          <span className="legend-line legend-dashed" style={{ borderColor: PREDICTION_COLOR }}></span>
+          <span>Predicted path</span>
+        </div>
+      )}
+      {showTracks && (
+        <>
+          <h4 className="legend-subheading">Track Altitude</h4>
+          {ALTITUDE_BANDS.map((band) => (
+            <div className="legend-item" key={band.label}>
+              <span className="legend-line" style={{ backgroundColor: band.color }}></span>
+              <span>{band.label}</span>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ColorLegend;
@@ -0,0 +1,48 @@
+import type { ConstellationData } from '../services/constellationApi';
+import type { WeatherData } from '../services/weatherApi';
+import type { DataSource } from '../services/dataSource';
+
+interface DataStatusProps {
+  history: ConstellationData[];
+  weatherData: Map<string, WeatherData>;
+  lastUpdated: Date | null;
+  refreshing: boolean;
+  source: DataSource;
+}
+
+function formatTime(time: Date | number): string {
+  return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// "Served from cache / last updated" indicator for constellation and weather data
+function DataStatus({ history, weatherData, lastUpdated, refreshing, source }: DataStatusProps) {
+  const cachedHours = history.filter((d) => d.cachedAt);
+  const cachedWeather = Array.from(weatherData.values()).filter((w) => w.cachedAt !== undefined);
+
+  let summary: string;
+  let fromCache = false;
+  if (source.mode === 'replay') {
+    // Nothing wall-clock dependent, so replays render identically
+    summary = `Replay · ${source.name} · latest hour ${new Date(source.now()).toISOString().slice(0, 13)}:00Z`;
+  } else if (cachedHours.length > 0) {
+    fromCache = true;
+    const oldest = Math.min(...cachedHours.map((d) => d.cachedAt!.getTime()));
+    summary = `Served from cache (${cachedHours.length}/${history.length} hours) · last updated ${formatTime(oldest)}`;
+  } else if (lastUpdated) {
+    summary = `${source.mode === 'record' ? `Recording to ${source.name}` : 'Live'} · last updated ${formatTime(lastUpdated)}`;
+  } else {
+    summary = source.mode === 'record' ? `Recording to ${source.name}` : 'Live';
+  }
+
+  return (
+    <div className={`data-status${fromCache ? ' from-cache' : ''}`}>
+      <span>{summary}</span>
+      {cachedWeather.length > 0 && (
+        <span> · weather: {cachedWeather.length} cached from {formatTime(Math.min(...cachedWeather.map((w) => w.cachedAt!)))}</span>
+      )}
+      {refreshing && <span className="data-status-refreshing"> · refreshing…</span>}
+    </div>
+  );
+}
+
+export default DataStatus;
@@ -0,0 +1,95 @@
+import type { HourDiagnostics, RejectReason } from '../services/constellationApi';
+
+interface DiagnosticsPanelProps {
+  diagnostics: HourDiagnostics[];
+  lenient: boolean;
+  onLenientChange: (lenient: boolean) => void;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<RejectReason, string> = {
+  'non-array': 'not an array',
+  'wrong-arity': 'wrong arity',
+  nan: 'NaN / non-numeric',
+  'lat-range': 'latitude out of range',
+  'lon-range': 'longitude out of range',
+  'alt-range': 'altitude out of range',
+};
+
+function totalRejected(d: HourDiagnostics): number {
+  return Object.values(d.rejected).reduce((sum, n) => sum + n, 0);
+}
+
+// Classify an hour so a quiet file can be told apart from a broken one
+function hourState(d: HourDiagnostics): { label: string; className: string } {
+  if (d.pending) return { label: d.attempts > 1 ? `retrying (${d.attempts})` : 'loading', className: 'warn' };
+  if (d.error) return { label: d.servedFromCache ? 'failed (cached)' : 'failed', className: 'bad' };
+  if (d.totalRows === 0) return { label: 'empty', className: 'warn' };
+  if (totalRejected(d) > 0) return { label: 'partial', className: 'warn' };
+  return { label: 'ok', className: 'ok' };
+}
+
+function DiagnosticsPanel({ diagnostics, lenient, onLenientChange, onClose }: DiagnosticsPanelProps) {
+  const totals = diagnostics.reduce(
+    (acc, d) => ({ rows: acc.rows + d.totalRows, rejected: acc.rejected + totalRejected(d), repaired: acc.repaired + d.repairedRows }),
+    { rows: 0, rejected: 0, repaired: 0 }
+  );
+
+  return (
+    <aside className="diagnostics-panel">
+      <div className="track-panel-header">
+        <h3>Data quality</h3>
+        <button onClick={onClose} className="track-panel-close" aria-label="Close diagnostics">
+          ×
+        </button>
+      </div>
+      <p className="track-info">
+        {totals.rows} rows, {totals.rejected} rejected{lenient && `, ${totals.repaired} repaired`}
+      </p>
+      <label className="toggle">
+        <input type="checkbox" checked={lenient} onChange={(e) => onLenientChange(e.target.checked)} />
+        Lenient mode (repair recoverable rows)
+      </label>
+      <table className="track-table">
+        <thead>
+          <tr>
+            <th>Hour</th>
+            <th>State</th>
+            <th>HTTP</th>
+            <th>Source</th>
+            <th>Rows</th>
+            <th>Rejected</th>
+          </tr>
+        </thead>
+        <tbody>
+          {diagnostics.map((d) => {
+            const state = hourState(d);
+            const reasons = (Object.keys(d.rejected) as RejectReason[]).filter((reason) => d.rejected[reason] > 0);
+            return (
+              <tr key={d.hourStart} title={d.url ?? d.error}>
+                <td>{d.hour === 0 ? 'Now' : `${d.hour}h`}</td>
+                <td className={`diagnostics-state ${state.className}`}>{state.label}</td>
+                <td>{d.status ?? '—'}</td>
+                <td>{d.source ?? '—'}</td>
+                <td>
+                  {d.acceptedRows}/{d.totalRows}
+                  {d.repairedRows > 0 && ` (${d.repairedRows} repaired)`}
+                </td>
+                <td>
+                  {d.error && <div>{d.error}</div>}
+                  {reasons.map((reason) => (
+                    <div key={reason}>
+                      {d.rejected[reason]} {REASON_LABELS[reason]}
+                    </div>
+                  ))}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </aside>
+  );
+}
+
+export default DiagnosticsPanel;
@@ -0,0 +1,84 @@
+import { useMemo } from 'react';
+import { CircleMarker, Polyline, Tooltip } from 'react-leaflet';
+import L from 'leaflet';
+import type { ConstellationData } from '../services/constellationApi';
+import type { DiffSighting, HourDiff } from '../utils/hourDiff';
+import { splitAtAntimeridian } from '../utils/geo';
+import { DIFF_COLORS } from '../utils/colors';
+
+interface DiffLayerProps {
+  diff: HourDiff;
+  history: ConstellationData[];
+  selectedTrackId: string | null;
+  onSelect: (trackId: string) => void;
+}
+
+const renderer = L.canvas({ padding: 0.5 });
+
+// Appeared balloons at their later position, lost ones at their earlier
+// position, and a vector from earlier to later for each matched balloon
+function DiffLayer({ diff, history, selectedTrackId, onSelect }: DiffLayerProps) {
+  const vectors = useMemo(
+    () => diff.moved.map((m) => ({ ...m, runs: splitAtAntimeridian(m.from, m.to) })),
+    [diff]
+  );
+
+  const marker = (sighting: DiffSighting, color: string, label: string) => {
+    const data = history.find((d) => d.hour === sighting.hour);
+    const position = data?.positions[sighting.index];
+    if (!position) return null;
+    const { trackId } = sighting;
+    return (
+      <CircleMarker
+        key={`${label}-${sighting.hour}-${sighting.index}`}
+        center={[position.latitude, position.longitude]}
+        radius={5}
+        pathOptions={{ renderer, color, fillColor: color, fillOpacity: label === 'Lost' ? 0 : 0.8, weight: 2 }}
+        eventHandlers={{ click: () => trackId && onSelect(trackId) }}
+      >
+        <Tooltip>
+          {label}: {trackId ?? `#${sighting.index + 1}`} · {(position.altitude / 1000).toFixed(1)} km
+        </Tooltip>
+      </CircleMarker>
+    );
+  };
+
+  return (
+    <>
+      {vectors.map(({ trackId, runs, distanceKm, altitudeChange }) => {
+        const selected = trackId === selectedTrackId;
+        return (
+          <Polyline
+            key={`moved-${trackId}`}
+            positions={runs}
+            pathOptions={{
+              renderer,
+              color: DIFF_COLORS.moved,
+              weight: selected ? 3 : 1.2,
+              opacity: selectedTrackId && !selected ? 0.3 : 0.8,
+            }}
+            eventHandlers={{ click: () => onSelect(trackId) }}
+          >
+            <Tooltip sticky>
+              {trackId}: {Math.round(distanceKm)} km, {altitudeChange >= 0 ? '+' : ''}
+              {Math.round(altitudeChange)} m
+            </Tooltip>
+          </Polyline>
+        );
+      })}
+      {vectors.map(({ trackId, to }) => (
+        <CircleMarker
+          key={`head-${trackId}`}
+          center={[to.latitude, to.longitude]}
+          radius={2}
+          interactive={false}
+          pathOptions={{ renderer, color: DIFF_COLORS.moved, fillColor: DIFF_COLORS.moved, fillOpacity: 1, weight: 0 }}
+        />
+      ))}
+      {diff.lost.map((s) => marker(s, DIFF_COLORS.lost, 'Lost'))}
+      {diff.appeared.map((s) => marker(s, DIFF_COLORS.appeared, 'Appeared'))}
+    </>
+  );
+}
+
+export default DiffLayer;
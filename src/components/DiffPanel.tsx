@@ -0,0 +1,136 @@
+import type { ConstellationData } from '../services/constellationApi';
+import type { HourDiff } from '../utils/hourDiff';
+
+interface DiffPanelProps {
+  history: ConstellationData[];
+  hourA: number;
+  hourB: number;
+  diff: HourDiff | null;
+  selectedTrackId: string | null;
+  onChange: (hourA: number, hourB: number) => void;
+  onSelect: (trackId: string) => void;
+  onClose: () => void;
+}
+
+const TOP_MOVERS = 10;
+
+function hourLabel(data: ConstellationData): string {
+  const ago = data.hour === 0 ? 'now' : `${data.hour}h ago`;
+  return `${data.timestamp.toISOString().slice(11, 13)}:00Z (${ago})`;
+}
+
+interface HourSelectProps {
+  label: string;
+  history: ConstellationData[];
+  value: number;
+  onChange: (hour: number) => void;
+}
+
+function HourSelect({ label, history, value, onChange }: HourSelectProps) {
+  return (
+    <label>
+      {label}
+      <select value={value} onChange={(e) => onChange(Number(e.target.value))}>
+        {[...history]
+          .sort((a, b) => b.hour - a.hour)
+          .map((d) => (
+            <option key={d.hour} value={d.hour}>
+              {hourLabel(d)}
+            </option>
+          ))}
+      </select>
+    </label>
+  );
+}
+
+// Pick two hours and summarise what changed between them
+function DiffPanel({ history, hourA, hourB, diff, selectedTrackId, onChange, onSelect, onClose }: DiffPanelProps) {
+  const movers = diff ? [...diff.moved].sort((a, b) => b.distanceKm - a.distanceKm).slice(0, TOP_MOVERS) : [];
+
+  return (
+    <aside className="filter-panel">
+      <div className="track-panel-header">
+        <h3>Compare hours</h3>
+        <button onClick={onClose} className="track-panel-close" aria-label="Close comparison">
+          ×
+        </button>
+      </div>
+
+      <div className="filter-row">
+        <HourSelect history={history} value={hourA} onChange={(hour) => onChange(hour, hourB)} label="From" />
+        <HourSelect history={history} value={hourB} onChange={(hour) => onChange(hourA, hour)} label="To" />
+        <button onClick={() => onChange(hourB, hourA)} className="panel-toggle" aria-label="Swap hours">
+          ⇄
+        </button>
+      </div>
+
+      {!diff ? (
+        <p className="no-weather">Pick two different hours.</p>
+      ) : (
+        <>
+          <p className="track-info">
+            {diff.fromHour - diff.toHour} hour{diff.fromHour - diff.toHour !== 1 ? 's' : ''} apart; earlier → later
+            regardless of the order picked.
+          </p>
+          <table className="track-table">
+            <tbody>
+              <tr>
+                <td>Appeared</td>
+                <td>{diff.appeared.length}</td>
+              </tr>
+              <tr>
+                <td>Lost</td>
+                <td>{diff.lost.length}</td>
+              </tr>
+              <tr>
+                <td>Matched</td>
+                <td>{diff.moved.length}</td>
+              </tr>
+              <tr>
+                <td>Mean displacement</td>
+                <td>{Math.round(diff.meanDisplacementKm)} km (max {Math.round(diff.maxDisplacementKm)} km)</td>
+              </tr>
+              <tr>
+                <td>Mean altitude change</td>
+                <td>
+                  {diff.meanAltitudeChange >= 0 ? '+' : ''}
+                  {Math.round(diff.meanAltitudeChange)} m
+                </td>
+              </tr>
+            </tbody>
+          </table>
+
+          {movers.length > 0 && (
+            <>
+              <h4>Largest moves</h4>
+              <table className="track-table">
+                <thead>
+                  <tr>
+                    <th>Balloon</th>
+                    <th>Moved (km)</th>
+                    <th>Δalt (m)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {movers.map((m) => (
+                    <tr
+                      key={m.trackId}
+                      className={m.trackId === selectedTrackId ? 'active' : undefined}
+                      onClick={() => onSelect(m.trackId)}
+                    >
+                      <td>{m.trackId}</td>
+                      <td>{Math.round(m.distanceKm)}</td>
+                      <td>{Math.round(m.altitudeChange)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </>
+      )}
+    </aside>
+  );
+}
+
+export default DiffPanel;
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import type { ConstellationData } from '../services/constellationApi';
+import { fetchWeatherForPositions, weatherKey } from '../services/weatherApi';
+import type { WeatherData } from '../services/weatherApi';
+import type { TrackSet } from '../utils/tracks';
+import { collectExportRecords, EXPORT_MIME_TYPES, exportFileName, serialize } from '../utils/export';
+import type { ExportFormat } from '../utils/export';
+
+interface ExportMenuProps {
+  history: ConstellationData[];
+  currentData: ConstellationData | null;
+  trackSet: TrackSet;
+  getWeather: (data: ConstellationData, index: number) => WeatherData | null;
+  include?: (data: ConstellationData, index: number, weather: WeatherData | null) => boolean; // active filters
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'geojson', label: 'GeoJSON' },
+  { format: 'kml', label: 'KML' },
+  { format: 'csv', label: 'CSV' },
+];
+
+function download(content: string, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// The map only has weather for the selected hour, so an all-hours export
+// loads it for every other hour first (weather filters depend on it too)
+function ExportMenu({ history, currentData, trackSet, getWeather, include }: ExportMenuProps) {
+  const [scope, setScope] = useState<'hour' | 'all'>('hour');
+  const [status, setStatus] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const exportAs = async (format: ExportFormat) => {
+    const snapshots = scope === 'all' ? history : currentData ? [currentData] : [];
+    if (snapshots.length === 0) return;
+
+    setExporting(true);
+    try {
+      const loaded = new Map<string, WeatherData>();
+      const others = snapshots.filter((data) => data !== currentData);
+      for (const [i, data] of others.entries()) {
+        setStatus(`Loading weather ${i + 1}/${others.length}…`);
+        const weather = await fetchWeatherForPositions(data.positions, data.timestamp);
+        weather.forEach((value, key) => loaded.set(key, value));
+      }
+
+      const weatherAt = (data: ConstellationData, index: number) => {
+        const p = data.positions[index];
+        return loaded.get(weatherKey(p.latitude, p.longitude, p.altitude, data.timestamp)) ?? getWeather(data, index);
+      };
+      const records = collectExportRecords(
+        snapshots,
+        trackSet,
+        weatherAt,
+        include && ((data, index) => include(data, index, weatherAt(data, index)))
+      );
+      if (records.length === 0) {
+        setStatus('Nothing to export');
+        return;
+      }
+
+      // Named after the hours actually written, which filters may have thinned
+      const latest = records.reduce((a, b) => (a.time > b.time ? a : b)).time;
+      const hours = new Set(records.map((r) => r.hour)).size;
+      download(serialize(format, records), exportFileName(format, latest, hours), EXPORT_MIME_TYPES[format]);
+      setStatus(null);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="export-menu">
+      <select value={scope} onChange={(e) => setScope(e.target.value as 'hour' | 'all')} aria-label="Export scope">
+        <option value="hour">Selected hour</option>
+        <option value="all">All {history.length} hours</option>
+      </select>
+      {FORMATS.map(({ format, label }) => (
+        <button key={format} onClick={() => exportAs(format)} className="panel-toggle" disabled={exporting}>
+          {label}
+        </button>
+      ))}
+      {status && <span className="track-info">{status}</span>}
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import type { FilterState, NewFilterCondition, WeatherField } from '../utils/filters';
+import { describeCondition, WEATHER_FIELDS } from '../utils/filters';
+import type { DrawMode } from './RegionDrawer';
+
+interface FilterPanelProps {
+  filter: FilterState;
+  matchCount: number;
+  totalCount: number;
+  drawMode: DrawMode | null;
+  onChange: (filter: FilterState) => void;
+  onAdd: (condition: NewFilterCondition) => void;
+  onDraw: (mode: DrawMode | null) => void;
+  onClose: () => void;
+}
+
+function FilterPanel({ filter, matchCount, totalCount, drawMode, onChange, onAdd, onDraw, onClose }: FilterPanelProps) {
+  const [minKm, setMinKm] = useState('');
+  const [maxKm, setMaxKm] = useState('');
+  const [field, setField] = useState<WeatherField>('temperature');
+  const [op, setOp] = useState<'<' | '>'>('<');
+  const [threshold, setThreshold] = useState('');
+
+  const addAltitude = () => {
+    const min = minKm === '' ? null : Number(minKm) * 1000;
+    const max = maxKm === '' ? null : Number(maxKm) * 1000;
+    if (min === null && max === null) return;
+    onAdd({ kind: 'altitude', min, max });
+    setMinKm('');
+    setMaxKm('');
+  };
+
+  const addWeather = () => {
+    if (threshold === '' || isNaN(Number(threshold))) return;
+    onAdd({ kind: 'weather', field, op, value: Number(threshold) });
+    setThreshold('');
+  };
+
+  return (
+    <aside className="filter-panel">
+      <div className="track-panel-header">
+        <h3>Filters</h3>
+        <button onClick={onClose} className="track-panel-close" aria-label="Close filters">
+          ×
+        </button>
+      </div>
+      <p className="track-info">
+        Showing {matchCount} of {totalCount} balloons
+      </p>
+
+      <div className="filter-row">
+        <label>
+          Combine
+          <select
+            value={filter.combine}
+            onChange={(e) => onChange({ ...filter, combine: e.target.value as FilterState['combine'] })}
+          >
+            <option value="and">All conditions (AND)</option>
+            <option value="or">Any condition (OR)</option>
+          </select>
+        </label>
+      </div>
+
+      <ul className="filter-list">
+        {filter.conditions.map((condition) => (
+          <li key={condition.id}>
+            <span>{describeCondition(condition)}</span>
+            <button
+              onClick={() => onChange({ ...filter, conditions: filter.conditions.filter((c) => c.id !== condition.id) })}
+              className="track-panel-close"
+              aria-label="Remove condition"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+        {filter.conditions.length === 0 && <li className="no-weather">No filters: showing everything</li>}
+      </ul>
+
+      <h4>Altitude (km)</h4>
+      <div className="filter-row">
+        <input type="number" placeholder="min" value={minKm} onChange={(e) => setMinKm(e.target.value)} />
+        <input type="number" placeholder="max" value={maxKm} onChange={(e) => setMaxKm(e.target.value)} />
+        <button onClick={addAltitude} className="panel-toggle">Add</button>
+      </div>
+
+      <h4>Region</h4>
+      <div className="filter-row">
+        {drawMode ? (
+          <>
+            <span className="track-info">
+              {drawMode === 'rectangle' ? 'Click two corners on the map' : 'Click vertices, double-click to finish'}
+            </span>
+            <button onClick={() => onDraw(null)} className="panel-toggle">Cancel</button>
+          </>
+        ) : (
+          <>
+            <button onClick={() => onDraw('rectangle')} className="panel-toggle">Draw rectangle</button>
+            <button onClick={() => onDraw('polygon')} className="panel-toggle">Draw polygon</button>
+          </>
+        )}
+      </div>
+
+      <h4>Weather</h4>
+      <div className="filter-row">
+        <select value={field} onChange={(e) => setField(e.target.value as WeatherField)}>
+          {(Object.keys(WEATHER_FIELDS) as WeatherField[]).map((f) => (
+            <option key={f} value={f}>
+              {WEATHER_FIELDS[f].label}
+            </option>
+          ))}
+        </select>
+        <select value={op} onChange={(e) => setOp(e.target.value as '<' | '>')}>
+          <option value="<">below</option>
+          <option value=">">above</option>
+        </select>
+        <input
+          type="number"
+          placeholder={WEATHER_FIELDS[field].unit}
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+        />
+        <button onClick={addWeather} className="panel-toggle">Add</button>
+      </div>
+      <p className="track-info">Balloons without loaded weather never match a weather condition.</p>
+
+      {filter.conditions.length > 0 && (
+        <button onClick={() => onChange({ ...filter, conditions: [] })} className="panel-toggle">
+          Clear all
+        </button>
+      )}
+    </aside>
+  );
+}
+
+export default FilterPanel;
@@ -0,0 +1,48 @@
+import { CircleMarker, Polygon, Tooltip } from 'react-leaflet';
+import type { Geofence, GeofenceEvent } from '../utils/geofences';
+import { describeEvent } from '../utils/geofences';
+import { unwrapRing } from '../utils/geo';
+import { GEOFENCE_COLOR } from '../utils/colors';
+
+interface GeofenceLayerProps {
+  fences: Geofence[];
+  events: GeofenceEvent[]; // crossings to mark, usually those in the viewed hour
+  onSelect: (trackId: string) => void;
+}
+
+// Geofence outlines, emphasised while they have crossings in the viewed
+// hour, with a marker at each crossing
+function GeofenceLayer({ fences, events, onSelect }: GeofenceLayerProps) {
+  const active = new Set(events.map((e) => e.fenceId));
+  const byId = new Map(fences.map((f) => [f.id, f]));
+
+  return (
+    <>
+      {fences.map((fence) => (
+        <Polygon
+          key={fence.id}
+          positions={fence.polygons.map((rings) => rings.map(unwrapRing))}
+          interactive={false}
+          pathOptions={{
+            color: GEOFENCE_COLOR,
+            weight: active.has(fence.id) ? 3 : 1.5,
+            fillOpacity: active.has(fence.id) ? 0.15 : 0.05,
+          }}
+        />
+      ))}
+      {events.map((event) => (
+        <CircleMarker
+          key={event.key}
+          center={[event.position.latitude, event.position.longitude]}
+          radius={9}
+          pathOptions={{ color: GEOFENCE_COLOR, weight: 2, fill: false, dashArray: event.kind === 'exit' ? '3 3' : undefined }}
+          eventHandlers={{ click: () => onSelect(event.trackId) }}
+        >
+          <Tooltip>{describeEvent(event, byId.get(event.fenceId))}</Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  );
+}
+
+export default GeofenceLayer;
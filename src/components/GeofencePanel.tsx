@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { parseGeofences } from '../utils/geofences';
+import type { Geofence, GeofenceEvent, NewGeofence } from '../utils/geofences';
+
+interface GeofencePanelProps {
+  fences: Geofence[];
+  events: GeofenceEvent[]; // newest first
+  drawing: boolean;
+  onDraw: (drawing: boolean) => void;
+  onAdd: (fences: NewGeofence[]) => void;
+  onRemove: (id: number) => void;
+  onSelectEvent: (event: GeofenceEvent) => void;
+  onClose: () => void;
+}
+
+const MAX_ROWS = 200;
+
+const notificationsSupported = typeof Notification !== 'undefined';
+
+function GeofencePanel({ fences, events, drawing, onDraw, onAdd, onRemove, onSelectEvent, onClose }: GeofencePanelProps) {
+  const [importError, setImportError] = useState<string | null>(null);
+  const [permission, setPermission] = useState(notificationsSupported ? Notification.permission : 'denied');
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onAdd(parseGeofences(JSON.parse(await file.text()), file.name.replace(/\.(geo)?json$/i, '')));
+      setImportError(null);
+    } catch (err) {
+      setImportError(`Could not import ${file.name}: ${err instanceof Error ? err.message : 'invalid file'}`);
+    }
+  };
+
+  const names = new Map(fences.map((f) => [f.id, f.name]));
+  const counts = new Map<number, number>();
+  events.forEach((e) => counts.set(e.fenceId, (counts.get(e.fenceId) ?? 0) + 1));
+
+  return (
+    <aside className="filter-panel">
+      <div className="track-panel-header">
+        <h3>Geofences</h3>
+        <button onClick={onClose} className="track-panel-close" aria-label="Close geofences">
+          ×
+        </button>
+      </div>
+
+      <ul className="filter-list">
+        {fences.map((fence) => (
+          <li key={fence.id}>
+            <span>
+              {fence.name} · {counts.get(fence.id) ?? 0} crossing{counts.get(fence.id) !== 1 ? 's' : ''}
+            </span>
+            <button onClick={() => onRemove(fence.id)} className="track-panel-close" aria-label={`Delete ${fence.name}`}>
+              ×
+            </button>
+          </li>
+        ))}
+        {fences.length === 0 && <li className="no-weather">No geofences yet</li>}
+      </ul>
+
+      <div className="filter-row">
+        {drawing ? (
+          <>
+            <span className="track-info">Click vertices, double-click to finish</span>
+            <button onClick={() => onDraw(false)} className="panel-toggle">Cancel</button>
+          </>
+        ) : (
+          <>
+            <button onClick={() => onDraw(true)} className="panel-toggle">Draw fence</button>
+            <label className="panel-toggle">
+              Import GeoJSON
+              <input type="file" accept=".geojson,.json,application/geo+json" onChange={importFile} hidden />
+            </label>
+          </>
+        )}
+      </div>
+      {importError && <p className="no-weather">{importError}</p>}
+
+      <div className="filter-row">
+        {!notificationsSupported ? (
+          <span className="track-info">This browser doesn't support notifications.</span>
+        ) : permission === 'granted' ? (
+          <span className="track-info">Notifying on new crossings after each refresh.</span>
+        ) : permission === 'denied' ? (
+          <span className="track-info">Notifications are blocked for this site.</span>
+        ) : (
+          <button
+            onClick={() => Notification.requestPermission().then(setPermission)}
+            className="panel-toggle"
+          >
+            Notify me of new crossings
+          </button>
+        )}
+      </div>
+
+      <h4>Crossings</h4>
+      {events.length > 0 ? (
+        <table className="track-table">
+          <thead>
+            <tr>
+              <th>Time (UTC)</th>
+              <th>Balloon</th>
+              <th>Fence</th>
+              <th>Event</th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.slice(0, MAX_ROWS).map((event) => (
+              <tr key={event.key} onClick={() => onSelectEvent(event)}>
+                <td>{event.time.toISOString().slice(5, 16).replace('T', ' ')}</td>
+                <td>{event.trackId}</td>
+                <td>{names.get(event.fenceId)}</td>
+                <td>{event.kind === 'entry' ? 'Entered' : 'Left'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="no-weather">No crossings in the loaded hours.</p>
+      )}
+      {events.length > MAX_ROWS && <p className="track-info">Showing the latest {MAX_ROWS} of {events.length}.</p>}
+    </aside>
+  );
+}
+
+export default GeofencePanel;
@@ -0,0 +1,56 @@
+import { hourStatus } from '../services/constellationApi';
+import type { HourDiagnostics } from '../services/constellationApi';
+
+interface HourStatusStripProps {
+  diagnostics: HourDiagnostics[];
+  selectedHour: number;
+  onSelectHour: (hour: number) => void;
+  onRetry: (hour: number) => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, i) => i);
+
+function describe(hour: number, d: HourDiagnostics | undefined): string {
+  const label = hour === 0 ? 'Now' : `${hour}h ago`;
+  if (!d) return `${label}: not checked`;
+  const status = hourStatus(d);
+  switch (status) {
+    case 'loading':
+      return `${label}: loading`;
+    case 'retrying':
+      return `${label}: retrying (attempt ${d.attempts}${d.error ? ` after ${d.error}` : ''})`;
+    case 'failed':
+      return `${label}: failed after ${d.attempts} attempt${d.attempts !== 1 ? 's' : ''} (${d.error})${d.servedFromCache ? ', showing cached copy' : ''}. Click to retry`;
+    case 'empty':
+      return `${label}: no balloons. Click to re-fetch`;
+    default:
+      return `${label}: ${d.acceptedRows} balloons`;
+  }
+}
+
+// One cell per hour of the window, newest on the left like the slider.
+// Failed and empty hours re-fetch on click; loaded ones select the hour.
+function HourStatusStrip({ diagnostics, selectedHour, onSelectHour, onRetry }: HourStatusStripProps) {
+  return (
+    <div className="hour-status-strip" role="group" aria-label="Hour status">
+      {HOURS.map((hour) => {
+        const d = diagnostics.find((item) => item.hour === hour);
+        const status = d ? hourStatus(d) : 'unknown';
+        const retryable = status === 'failed' || status === 'empty';
+        const title = describe(hour, d);
+        return (
+          <button
+            key={hour}
+            className={`hour-status ${status}${d?.servedFromCache ? ' cached' : ''}${hour === selectedHour ? ' selected' : ''}`}
+            title={title}
+            aria-label={title}
+            disabled={status === 'loading' || status === 'retrying' || status === 'unknown'}
+            onClick={() => (retryable ? onRetry(hour) : onSelectHour(hour))}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+export default HourStatusStrip;
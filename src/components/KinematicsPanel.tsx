@@ -0,0 +1,104 @@
+import { useMemo, useState } from 'react';
+import type { TrackKinematics } from '../utils/kinematics';
+
+interface KinematicsPanelProps {
+  kinematics: Map<string, TrackKinematics>;
+  hour: number;
+  selectedTrackId: string | null;
+  onSelect: (trackId: string) => void;
+  onClose: () => void;
+}
+
+type SortKey = 'distance' | 'maxSpeed' | 'speedNow' | 'altitudeChange';
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'distance', label: 'Flown (km)' },
+  { key: 'maxSpeed', label: 'Top km/h' },
+  { key: 'speedNow', label: 'km/h now' },
+  { key: 'altitudeChange', label: 'Max Δalt (m)' },
+];
+
+const MAX_ROWS = 200;
+
+// Sortable per-balloon motion summary over the loaded window
+function KinematicsPanel({ kinematics, hour, selectedTrackId, onSelect, onClose }: KinematicsPanelProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('maxSpeed');
+  const [descending, setDescending] = useState(true);
+
+  const rows = useMemo(() => {
+    const all = Array.from(kinematics.values())
+      .filter((k) => k.steps.length > 0)
+      .map((k) => ({
+        trackId: k.trackId,
+        distance: k.totalDistanceKm,
+        maxSpeed: k.maxSpeedKmh,
+        speedNow: k.byHour.get(hour)?.speedKmh ?? null,
+        altitudeChange: k.largestAltitudeChange,
+      }));
+    // Missing values sort last either way; altitude change sorts by magnitude
+    const value = (row: (typeof all)[number]) =>
+      sortKey === 'altitudeChange' ? Math.abs(row.altitudeChange) : row[sortKey];
+    return all.sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      if (va === null || vb === null) return va === null ? (vb === null ? 0 : 1) : -1;
+      return descending ? vb - va : va - vb;
+    });
+  }, [kinematics, hour, sortKey, descending]);
+
+  const totalDistance = rows.reduce((sum, r) => sum + r.distance, 0);
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending((d) => !d);
+    } else {
+      setSortKey(key);
+      setDescending(true);
+    }
+  };
+
+  return (
+    <aside className="diagnostics-panel">
+      <div className="track-panel-header">
+        <h3>Balloon motion</h3>
+        <button onClick={onClose} className="track-panel-close" aria-label="Close motion summary">
+          ×
+        </button>
+      </div>
+      <p className="track-info">
+        {rows.length} tracked balloon{rows.length !== 1 ? 's' : ''}, {Math.round(totalDistance).toLocaleString()} km flown in total
+        {rows.length > MAX_ROWS && ` · showing top ${MAX_ROWS}`}
+      </p>
+      <table className="track-table">
+        <thead>
+          <tr>
+            <th>Balloon</th>
+            {COLUMNS.map((column) => (
+              <th key={column.key} className="sortable" onClick={() => sortBy(column.key)}>
+                {column.label}
+                {column.key === sortKey && (descending ? ' ▼' : ' ▲')}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.slice(0, MAX_ROWS).map((row) => (
+            <tr
+              key={row.trackId}
+              className={row.trackId === selectedTrackId ? 'active' : undefined}
+              onClick={() => onSelect(row.trackId)}
+            >
+              <td>{row.trackId}</td>
+              <td>{Math.round(row.distance)}</td>
+              <td>{Math.round(row.maxSpeed)}</td>
+              <td>{row.speedNow !== null ? Math.round(row.speedNow) : '–'}</td>
+              <td>{Math.round(row.altitudeChange)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </aside>
+  );
+}
+
+export default KinematicsPanel;
@@ -0,0 +1,41 @@
+import { CircleMarker } from 'react-leaflet';
+import L from 'leaflet';
+import type { PlaybackPoint } from '../utils/playback';
+import { altitudeColor } from '../utils/colors';
+
+interface PlaybackLayerProps {
+  points: PlaybackPoint[];
+  getColor?: (altitude: number) => string;
+}
+
+const renderer = L.canvas({ padding: 0.5 });
+
+// Interpolated balloon positions during playback, coloured by altitude
+// (banded unless the markers are already coloured by altitude)
+function PlaybackLayer({ points, getColor = altitudeColor }: PlaybackLayerProps) {
+  return (
+    <>
+      {points.map((point) => {
+        const color = getColor(point.altitude);
+        return (
+          <CircleMarker
+            key={point.trackId}
+            center={[point.latitude, point.longitude]}
+            radius={5}
+            interactive={false}
+            pathOptions={{
+              renderer,
+              color,
+              fillColor: color,
+              opacity: point.opacity,
+              fillOpacity: 0.7 * point.opacity,
+              weight: 1,
+            }}
+          />
+        );
+      })}
+    </>
+  );
+}
+
+export default PlaybackLayer;
@@ -0,0 +1,82 @@
+import { useMemo } from 'react';
+import { CircleMarker, Polygon, Polyline, Tooltip } from 'react-leaflet';
+import type { PredictedPoint, PredictedTrack } from '../services/prediction';
+import { destinationPoint, initialBearing, longitudeDelta } from '../utils/geo';
+import { PREDICTION_COLOR } from '../utils/colors';
+
+interface PredictionLayerProps {
+  predictions: PredictedTrack[];
+}
+
+// Offset a point sideways by its cone radius, keeping longitude unwrapped
+function offset(point: PredictedPoint, bearing: number): [number, number] {
+  const o = destinationPoint(point, bearing, point.radiusKm);
+  return [o.latitude, point.longitude + longitudeDelta(point.longitude, o.longitude)];
+}
+
+// Outline of the uncertainty cone: left edge out, right edge back
+function cone(points: PredictedPoint[]): Array<[number, number]> {
+  const left: Array<[number, number]> = [];
+  const right: Array<[number, number]> = [];
+  points.forEach((point, i) => {
+    const from = points[Math.max(0, i - 1)];
+    const to = points[Math.min(points.length - 1, i + 1)];
+    const heading = from === to ? 0 : initialBearing(from, to);
+    left.push(offset(point, heading - 90));
+    right.push(offset(point, heading + 90));
+  });
+  return [...left, ...right.reverse()];
+}
+
+// Dashed forecast paths with uncertainty cones; longitudes are unwrapped, so
+// paths crossing ±180° continue off the edge of the world copy they start in
+function PredictionLayer({ predictions }: PredictionLayerProps) {
+  const shapes = useMemo(
+    () =>
+      predictions
+        .filter((p) => p.points.length > 1)
+        .map((p) => ({
+          trackId: p.trackId,
+          line: p.points.map((point): [number, number] => [point.latitude, point.longitude]),
+          cone: cone(p.points),
+          end: p.points[p.points.length - 1],
+        })),
+    [predictions]
+  );
+
+  return (
+    <>
+      {shapes.map((shape) => (
+        <Polygon
+          key={`${shape.trackId}-cone`}
+          positions={shape.cone}
+          interactive={false}
+          pathOptions={{ color: PREDICTION_COLOR, weight: 0, fillOpacity: 0.12 }}
+        />
+      ))}
+      {shapes.map((shape) => (
+        <Polyline
+          key={`${shape.trackId}-path`}
+          positions={shape.line}
+          interactive={false}
+          pathOptions={{ color: PREDICTION_COLOR, weight: 2, dashArray: '6 6' }}
+        />
+      ))}
+      {shapes.map((shape) => (
+        <CircleMarker
+          key={`${shape.trackId}-end`}
+          center={[shape.end.latitude, shape.end.longitude]}
+          radius={4}
+          pathOptions={{ color: PREDICTION_COLOR, fillColor: PREDICTION_COLOR, fillOpacity: 0.8, weight: 1 }}
+        >
+          <Tooltip>
+            {shape.trackId} +{shape.end.hoursAhead}h · {(shape.end.altitude / 1000).toFixed(1)} km · ±
+            {Math.round(shape.end.radiusKm)} km
+          </Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  );
+}
+
+export default PredictionLayer;
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import type { ConstellationData } from '../services/constellationApi';
+import {
+  MAX_PREDICTED_BALLOONS,
+  PREDICTION_HORIZONS,
+  predictTrajectories,
+  runBacktest,
+  sampleEvenly,
+} from '../services/prediction';
+import type { BacktestResult, PredictedTrack, PredictionStart, VerticalMode } from '../services/prediction';
+import type { TrackKinematics } from '../utils/kinematics';
+import type { TrackSet } from '../utils/tracks';
+
+interface PredictionPanelProps {
+  selectedStart: PredictionStart | null;
+  shownStarts: PredictionStart[];
+  history: ConstellationData[];
+  trackSet: TrackSet;
+  kinematics: Map<string, TrackKinematics>;
+  predictionCount: number;
+  onPredicted: (tracks: PredictedTrack[]) => void;
+  onClose: () => void;
+}
+
+type Scope = 'selected' | 'shown';
+
+function PredictionPanel({
+  selectedStart,
+  shownStarts,
+  history,
+  trackSet,
+  kinematics,
+  predictionCount,
+  onPredicted,
+  onClose,
+}: PredictionPanelProps) {
+  const [hours, setHours] = useState(24);
+  const [vertical, setVertical] = useState<VerticalMode>('constant');
+  const [scope, setScope] = useState<Scope>(selectedStart ? 'selected' : 'shown');
+  const [running, setRunning] = useState<'predict' | 'backtest' | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [backtest, setBacktest] = useState<BacktestResult | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const starts =
+    scope === 'selected' ? (selectedStart ? [selectedStart] : []) : sampleEvenly(shownStarts, MAX_PREDICTED_BALLOONS);
+
+  const predict = async () => {
+    setRunning('predict');
+    setProgress(0);
+    setMessage(null);
+    try {
+      const tracks = await predictTrajectories(starts, { hours, vertical }, setProgress);
+      const incomplete = tracks.filter((t) => !t.complete).length;
+      if (incomplete > 0) setMessage(`Winds unavailable for ${incomplete} balloon${incomplete !== 1 ? 's' : ''}; their paths stop early.`);
+      onPredicted(tracks);
+    } catch (err) {
+      console.error('Prediction failed:', err);
+      setMessage(`Prediction failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const score = async () => {
+    setRunning('backtest');
+    setProgress(0);
+    try {
+      const result = await runBacktest(history, trackSet, kinematics, vertical, setProgress);
+      setBacktest(result);
+      setMessage(result ? null : 'No balloons were tracked from the oldest snapshot to the latest one.');
+    } catch (err) {
+      console.error('Backtest failed:', err);
+      setMessage(`Backtest failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  return (
+    <aside className="filter-panel">
+      <div className="track-panel-header">
+        <h3>Trajectory prediction</h3>
+        <button onClick={onClose} className="track-panel-close" aria-label="Close prediction">
+          ×
+        </button>
+      </div>
+      <p className="track-info">
+        Steps balloons forward hourly with Open-Meteo forecast winds at their altitude, starting from each
+        balloon's latest sighting.
+      </p>
+
+      <div className="filter-row">
+        <label>
+          Horizon
+          <select value={hours} onChange={(e) => setHours(Number(e.target.value))}>
+            {PREDICTION_HORIZONS.map((h) => (
+              <option key={h} value={h}>
+                {h} h
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Altitude
+          <select value={vertical} onChange={(e) => setVertical(e.target.value as VerticalMode)}>
+            <option value="constant">Hold constant</option>
+            <option value="trend">Follow vertical trend</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="filter-row">
+        <label>
+          Balloons
+          <select value={scope} onChange={(e) => setScope(e.target.value as Scope)}>
+            <option value="selected" disabled={!selectedStart}>
+              Selected balloon
+            </option>
+            <option value="shown">
+              Shown balloons
+              {shownStarts.length > MAX_PREDICTED_BALLOONS ? ` (${MAX_PREDICTED_BALLOONS} of ${shownStarts.length})` : ''}
+            </option>
+          </select>
+        </label>
+      </div>
+
+      <div className="filter-row">
+        <button onClick={predict} className="panel-toggle" disabled={running !== null || starts.length === 0}>
+          Predict
+        </button>
+        {predictionCount > 0 && (
+          <button onClick={() => onPredicted([])} className="panel-toggle" disabled={running !== null}>
+            Clear {predictionCount} path{predictionCount !== 1 ? 's' : ''}
+          </button>
+        )}
+        {running && <span className="track-info">{Math.round(progress * 100)}%</span>}
+      </div>
+      {scope === 'selected' && !selectedStart && <p className="no-weather">Select a balloon on the map first.</p>}
+
+      <h4>Backtest</h4>
+      <p className="track-info">
+        Predicts from the oldest snapshot and compares with where the same balloons were seen in the latest one.
+      </p>
+      <div className="filter-row">
+        <button onClick={score} className="panel-toggle" disabled={running !== null}>
+          Run backtest
+        </button>
+      </div>
+      {backtest && (
+        <table className="track-table">
+          <tbody>
+            <tr>
+              <td>Balloons scored</td>
+              <td>
+                {backtest.count} over {backtest.hours} h
+              </td>
+            </tr>
+            <tr>
+              <td>Median error</td>
+              <td>{Math.round(backtest.medianErrorKm)} km</td>
+            </tr>
+            <tr>
+              <td>Mean error</td>
+              <td>{Math.round(backtest.meanErrorKm)} km</td>
+            </tr>
+            <tr>
+              <td>90th percentile</td>
+              <td>{Math.round(backtest.p90ErrorKm)} km</td>
+            </tr>
+            <tr>
+              <td>Stayed put (baseline)</td>
+              <td>{Math.round(backtest.persistenceMedianKm)} km median</td>
+            </tr>
+            <tr>
+              <td>Inside cone</td>
+              <td>{Math.round(backtest.withinCone * 100)}%</td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+      {message && <p className="no-weather">{message}</p>}
+    </aside>
+  );
+}
+
+export default PredictionPanel;
@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from 'react';
+import { CircleMarker, Polygon, Polyline, Rectangle, useMap, useMapEvents } from 'react-leaflet';
+import type { FilterCondition, NewFilterCondition, RegionBounds } from '../utils/filters';
+import { normalizeLongitude, unwrapRing } from '../utils/geo';
+import type { LatLon } from '../utils/geo';
+
+export type DrawMode = 'rectangle' | 'polygon';
+
+type RegionCondition = Extract<FilterCondition, { kind: 'rectangle' | 'polygon' }>;
+type NewRegion = Extract<NewFilterCondition, { kind: 'rectangle' | 'polygon' }>;
+
+interface RegionDrawerProps {
+  mode: DrawMode | null;
+  regions: RegionCondition[];
+  onComplete: (region: NewRegion) => void;
+}
+
+const REGION_STYLE = { color: '#667eea', weight: 2, dashArray: '6 4', fillOpacity: 0.08, interactive: false };
+
+function rectangleBounds(bounds: RegionBounds): [[number, number], [number, number]] {
+  const east = bounds.east >= bounds.west ? bounds.east : bounds.east + 360;
+  return [[bounds.south, bounds.west], [bounds.north, east]];
+}
+
+// The box as drawn between two clicks, from their map longitudes (not
+// normalised), so boxes wider than 180° keep the side they were drawn on
+function boundsFromCorners(a: { lat: number; lng: number }, b: { lat: number; lng: number }): RegionBounds {
+  const west = Math.min(a.lng, b.lng);
+  const east = Math.max(a.lng, b.lng);
+  const wholeWorld = east - west >= 360;
+  return {
+    south: Math.min(a.lat, b.lat),
+    north: Math.max(a.lat, b.lat),
+    west: wholeWorld ? -180 : normalizeLongitude(west),
+    east: wholeWorld ? 180 : normalizeLongitude(east),
+  };
+}
+
+// Draws active region filters and captures new ones: two clicks for a
+// rectangle, clicks plus a double-click to close a polygon
+function RegionDrawer({ mode, regions, onComplete }: RegionDrawerProps) {
+  const map = useMap();
+  const [draft, setDraft] = useState<LatLon[]>([]);
+  const cornerRef = useRef<{ lat: number; lng: number } | null>(null);
+
+  // Double-click finishes a polygon instead of zooming while drawing
+  useEffect(() => {
+    if (!mode) return;
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+    return () => {
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+    };
+  }, [map, mode]);
+
+  useMapEvents({
+    click(e) {
+      if (!mode) return;
+      const point = { latitude: e.latlng.lat, longitude: normalizeLongitude(e.latlng.lng) };
+      if (mode === 'rectangle' && draft.length === 1 && cornerRef.current) {
+        onComplete({ kind: 'rectangle', bounds: boundsFromCorners(cornerRef.current, e.latlng) });
+        setDraft([]);
+        return;
+      }
+      cornerRef.current = e.latlng;
+      setDraft((points) => [...points, point]);
+    },
+    dblclick() {
+      if (mode !== 'polygon') return;
+      // The double-click's own clicks already added a duplicate last vertex
+      const points = draft.slice(0, -1);
+      if (points.length >= 3) onComplete({ kind: 'polygon', points });
+      setDraft([]);
+    },
+  });
+
+  return (
+    <>
+      {regions.map((region) =>
+        region.kind === 'rectangle' ? (
+          <Rectangle key={region.id} bounds={rectangleBounds(region.bounds)} pathOptions={REGION_STYLE} />
+        ) : (
+          <Polygon key={region.id} positions={unwrapRing(region.points)} pathOptions={REGION_STYLE} />
+        )
+      )}
+      {mode && draft.length > 0 && (
+        <>
+          <Polyline positions={unwrapRing(draft)} pathOptions={{ ...REGION_STYLE, dashArray: undefined }} />
+          {draft.map((p, i) => (
+            <CircleMarker key={i} center={[p.latitude, p.longitude]} radius={4} pathOptions={{ color: '#667eea', interactive: false }} />
+          ))}
+        </>
+      )}
+    </>
+  );
+}
+
+export default RegionDrawer;
@@ -0,0 +1,59 @@
+import { useMemo } from 'react';
+import { Polyline } from 'react-leaflet';
+import L from 'leaflet';
+import type { BalloonTrack } from '../utils/tracks';
+import { splitAtAntimeridian } from '../utils/geo';
+import { altitudeColor } from '../utils/colors';
+
+interface TrackLayerProps {
+  tracks: BalloonTrack[];
+  selectedTrackId: string | null;
+  onSelect: (trackId: string) => void;
+}
+
+// Shared canvas renderer: thousands of SVG paths would stall the map
+const renderer = L.canvas({ padding: 0.5 });
+
+// Group a track's segments by colour so each track needs only a few polylines
+function segmentsByColor(track: BalloonTrack): Map<string, Array<Array<[number, number]>>> {
+  const groups = new Map<string, Array<Array<[number, number]>>>();
+  for (let i = 1; i < track.points.length; i++) {
+    const from = track.points[i - 1];
+    const to = track.points[i];
+    const color = altitudeColor((from.altitude + to.altitude) / 2);
+    const runs = groups.get(color) ?? [];
+    runs.push(...splitAtAntimeridian(from, to));
+    groups.set(color, runs);
+  }
+  return groups;
+}
+
+function TrackLayer({ tracks, selectedTrackId, onSelect }: TrackLayerProps) {
+  const segments = useMemo(
+    () => tracks.filter((t) => t.points.length > 1).map((t) => ({ id: t.id, groups: segmentsByColor(t) })),
+    [tracks]
+  );
+
+  return (
+    <>
+      {segments.map(({ id, groups }) => {
+        const selected = id === selectedTrackId;
+        return Array.from(groups.entries()).map(([color, runs]) => (
+          <Polyline
+            key={`${id}-${color}`}
+            positions={runs}
+            pathOptions={{
+              renderer,
+              color,
+              weight: selected ? 4 : 1.5,
+              opacity: selectedTrackId && !selected ? 0.2 : 0.7,
+            }}
+            eventHandlers={{ click: () => onSelect(id) }}
+          />
+        ));
+      })}
+    </>
+  );
+}
+
+export default TrackLayer;
@@ -0,0 +1,76 @@
+import type { BalloonTrack } from '../utils/tracks';
+import type { TrackKinematics } from '../utils/kinematics';
+import { compassPoint } from '../utils/geo';
+
+interface TrackPanelProps {
+  track: BalloonTrack;
+  kinematics: TrackKinematics | null;
+  selectedHour: number;
+  onSelectHour: (hour: number) => void;
+  onClose: () => void;
+}
+
+function formatHour(hour: number): string {
+  return hour === 0 ? 'Now' : `${hour}h ago`;
+}
+
+function TrackPanel({ track, kinematics, selectedHour, onSelectHour, onClose }: TrackPanelProps) {
+  // Newest first, matching the slider direction
+  const points = [...track.points].reverse();
+  const first = track.points[0];
+  const last = track.points[track.points.length - 1];
+
+  return (
+    <aside className="track-panel">
+      <div className="track-panel-header">
+        <h3>Balloon {track.id}</h3>
+        <button onClick={onClose} className="track-panel-close" aria-label="Close history">
+          ×
+        </button>
+      </div>
+      <p className="track-info">
+        Seen {track.points.length} time{track.points.length !== 1 ? 's' : ''}, {formatHour(first.hour)} to {formatHour(last.hour)}
+        {kinematics && kinematics.steps.length > 0 && (
+          <>
+            {' '}· {Math.round(kinematics.totalDistanceKm)} km flown, top speed {Math.round(kinematics.maxSpeedKmh)} km/h
+          </>
+        )}
+      </p>
+      <table className="track-table">
+        <thead>
+          <tr>
+            <th>Time</th>
+            <th>Lat</th>
+            <th>Lon</th>
+            <th>Alt (m)</th>
+            <th>km/h</th>
+            <th>Hdg</th>
+            <th>m/s</th>
+          </tr>
+        </thead>
+        <tbody>
+          {points.map((p) => {
+            const step = kinematics?.byHour.get(p.hour);
+            return (
+              <tr
+                key={p.hour}
+                className={p.hour === selectedHour ? 'active' : undefined}
+                onClick={() => onSelectHour(p.hour)}
+              >
+                <td>{formatHour(p.hour)}</td>
+                <td>{p.latitude.toFixed(3)}</td>
+                <td>{p.longitude.toFixed(3)}</td>
+                <td>{Math.round(p.altitude)}</td>
+                <td>{step ? step.speedKmh.toFixed(0) : '–'}</td>
+                <td>{step ? compassPoint(step.bearing) : '–'}</td>
+                <td>{step ? step.verticalRate.toFixed(2) : '–'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </aside>
+  );
+}
+
+export default TrackPanel;
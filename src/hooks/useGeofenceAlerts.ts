@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+import { describeEvent } from '../utils/geofences';
+import type { Geofence, GeofenceEvent } from '../utils/geofences';
+
+// Lines listed in a summary notification before "and N more"
+const MAX_LISTED = 5;
+
+// Browser notifications for crossings that appear after a refresh. Events
+// present when data first loads, or produced by a newly added fence, are
+// treated as already seen. Pass ready = false until the first network load
+// has finished, so the baseline isn't a cached copy of the window.
+export function useGeofenceAlerts(events: GeofenceEvent[], fences: Geofence[], ready: boolean) {
+  const seenRef = useRef(new Set<string>());
+  const knownFencesRef = useRef(new Set<number>());
+
+  useEffect(() => {
+    if (!ready) return;
+    const fresh = events.filter((e) => knownFencesRef.current.has(e.fenceId) && !seenRef.current.has(e.key));
+    events.forEach((e) => seenRef.current.add(e.key));
+    knownFencesRef.current = new Set(fences.map((f) => f.id));
+
+    if (fresh.length === 0 || typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+    const byId = new Map(fences.map((f) => [f.id, f]));
+    const lines = fresh.slice(0, MAX_LISTED).map((e) => describeEvent(e, byId.get(e.fenceId)));
+    if (fresh.length > MAX_LISTED) lines.push(`and ${fresh.length - MAX_LISTED} more`);
+    new Notification(fresh.length === 1 ? 'Geofence crossing' : `${fresh.length} geofence crossings`, {
+      body: lines.join('\n'),
+      tag: 'geofence-crossings',
+    });
+  }, [events, fences, ready]);
+}
@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4]; // hours per second
+
+// Animation clock for time playback. Time is fractional "hours ago" and
+// counts down towards 0 (now), looping back to maxHour if enabled. onEnd
+// gets the final hour when a non-looping run reaches now, as pause() returns it.
+export function usePlayback(maxHour: number, onEnd?: (hour: number) => void) {
+  const [playing, setPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState(true);
+  const timeRef = useRef(0);
+  const onEndRef = useRef(onEnd);
+
+  useEffect(() => {
+    onEndRef.current = onEnd;
+  }, [onEnd]);
+
+  useEffect(() => {
+    if (!playing || maxHour <= 0) return;
+
+    let frameId = 0;
+    let last = performance.now();
+    const step = (now: number) => {
+      let next = timeRef.current - ((now - last) / 1000) * speed;
+      last = now;
+
+      if (next <= 0) {
+        if (!loop) {
+          timeRef.current = 0;
+          setTime(0);
+          setPlaying(false);
+          onEndRef.current?.(0);
+          return;
+        }
+        next += maxHour;
+      }
+
+      timeRef.current = next;
+      setTime(next);
+      frameId = requestAnimationFrame(step);
+    };
+
+    frameId = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frameId);
+  }, [playing, speed, loop, maxHour]);
+
+  // Start from a given hour; starting at "now" rewinds to the oldest hour
+  const play = useCallback(
+    (fromHour: number) => {
+      const start = fromHour <= 0 ? maxHour : fromHour;
+      timeRef.current = start;
+      setTime(start);
+      setPlaying(true);
+    },
+    [maxHour]
+  );
+
+  // Stop and return the nearest whole hour
+  const pause = useCallback(() => {
+    setPlaying(false);
+    return Math.round(timeRef.current);
+  }, []);
+
+  return { playing, time, speed, setSpeed, loop, setLoop, play, pause };
+}
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import { parseUrlState, serializeUrlState } from '../utils/urlState';
+import type { UrlState } from '../utils/urlState';
+
+// Changes within this window (slider drags, map pans) become one history entry
+const PUSH_DELAY = 400;
+
+// Two-way sync between view state and the query string. State is pushed as a
+// new history entry once it settles (the first write replaces, so loading a
+// page doesn't add an entry); back/forward hands the parsed URL to onNavigate.
+// Pass null while the view isn't ready to be written yet.
+export function useUrlSync(state: UrlState | null, onNavigate: (state: UrlState) => void) {
+  const search = state ? serializeUrlState(state) : null;
+  const writtenRef = useRef(false);
+  const navigateRef = useRef(onNavigate);
+
+  useEffect(() => {
+    navigateRef.current = onNavigate;
+  }, [onNavigate]);
+
+  useEffect(() => {
+    if (search === null || search === window.location.search) return;
+
+    const timer = setTimeout(() => {
+      const url = `${window.location.pathname}${search}${window.location.hash}`;
+      if (writtenRef.current) {
+        window.history.pushState(null, '', url);
+      } else {
+        window.history.replaceState(null, '', url);
+      }
+      writtenRef.current = true;
+    }, writtenRef.current ? PUSH_DELAY : 0);
+
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    const handlePop = () => {
+      // The URL already matches what is about to be restored
+      writtenRef.current = true;
+      navigateRef.current(parseUrlState(window.location.search));
+    };
+    window.addEventListener('popstate', handlePop);
+    return () => window.removeEventListener('popstate', handlePop);
+  }, []);
+}
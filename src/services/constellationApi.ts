@@ -1,5 +1,9 @@
 // WindBorne constellation API
 
+import { cacheGetMany, cachePrune, cachePutMany } from './offlineCache';
+import { getDataSource } from './dataSource';
+import { normalizeLongitude } from '../utils/geo';
+
 export interface BalloonPosition {
   latitude: number;
   longitude: number;
@@ -10,74 +14,499 @@ export interface BalloonPosition {
 export interface ConstellationData {
   hour: number;
   positions: BalloonPosition[];
-  timestamp: Date;
+  timestamp: Date; // start of the UTC hour the snapshot describes
+  cachedAt?: Date; // set when served from the offline cache
 }
 
-// Check if position is valid [lat, lon, alt]
-function isValidPosition(arr: unknown): arr is [number, number, number] {
-  if (!Array.isArray(arr) || arr.length !== 3) return false;
+type RawPosition = [number, number, number];
+
+const HOURS = Array.from({ length: 24 }, (_, i) => i);
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hour files are cached for two days, keyed by absolute UTC hour
+const CACHE_MAX_AGE = 48 * HOUR_MS;
+
+// Rows as parsed, so lenient (repaired) rows get their own keys and never
+// reach a strict session
+function cacheKey(hourStart: number, options: FetchOptions): number | string {
+  return options.lenient ? `lenient:${hourStart}` : hourStart;
+}
+
+const REQUEST_TIMEOUT = 10000;
+const AGGREGATE_TIMEOUT = 20000; // the function itself waits up to 10 s per hour
+// Transient failures (network, timeout, 408/429/5xx, truncated JSON) are
+// retried with exponential backoff: ~0.5 s, 1 s, 2 s, plus jitter
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 8000;
+
+// Start of the UTC hour that NN.json describes (hour 3 at 14:20Z is 11:00Z)
+export function snapshotHourStart(hoursAgo: number, now: number = getDataSource().now()): number {
+  return (Math.floor(now / HOUR_MS) - hoursAgo) * HOUR_MS;
+}
+
+export type RejectReason = 'non-array' | 'wrong-arity' | 'nan' | 'lat-range' | 'lon-range' | 'alt-range';
+
+// Per-hour data-quality report
+export interface HourDiagnostics {
+  hour: number; // hours ago, relative to the current window
+  hourStart: number; // ms, absolute UTC hour
+  source: 'aggregate' | 'proxy' | 'direct' | 'replay' | null; // which URL served the file
+  url: string | null;
+  status: number | null; // HTTP status; null on network error
+  error?: string; // network, HTTP or JSON problem
+  totalRows: number;
+  acceptedRows: number;
+  repairedRows: number; // accepted only after lenient repair
+  rejected: Record<RejectReason, number>;
+  servedFromCache: boolean; // fetch failed and the cached copy was used
+  checkedAt: number; // ms
+  attempts: number;
+  pending: boolean; // a request (or the wait before a retry) is in flight
+}
+
+export type HourStatus = 'loading' | 'retrying' | 'ok' | 'empty' | 'failed';
+
+export interface FetchOptions {
+  lenient?: boolean; // repair recoverable rows instead of dropping them
+  onDiagnostics?: () => void; // called as hours start, retry and finish
+}
+
+// Where an hour's fetch stands, for the status strip
+export function hourStatus(d: HourDiagnostics): HourStatus {
+  if (d.pending) return d.attempts > 1 || d.error ? 'retrying' : 'loading';
+  if (d.error) return 'failed';
+  return d.acceptedRows > 0 ? 'ok' : 'empty';
+}
+
+// Latest diagnostics per absolute hour
+const diagnosticsByHour = new Map<number, HourDiagnostics>();
+
+function emptyRejections(): Record<RejectReason, number> {
+  return { 'non-array': 0, 'wrong-arity': 0, nan: 0, 'lat-range': 0, 'lon-range': 0, 'alt-range': 0 };
+}
+
+// Check a row [lat, lon, alt]. Lenient mode repairs what is recoverable:
+// extra trailing fields, numeric strings and longitudes outside ±180.
+function checkPosition(
+  row: unknown,
+  lenient: boolean
+): { position: RawPosition; repaired: boolean } | { reason: RejectReason } {
+  if (!Array.isArray(row)) return { reason: 'non-array' };
+  if (row.length !== 3 && !(lenient && row.length > 3)) return { reason: 'wrong-arity' };
   
-  const [lat, lon, alt] = arr;
-  return (
-    typeof lat === 'number' && !isNaN(lat) && lat >= -90 && lat <= 90 &&
-    typeof lon === 'number' && !isNaN(lon) && lon >= -180 && lon <= 180 &&
-    typeof alt === 'number' && !isNaN(alt) && alt >= -500 && alt <= 50000
-  );
+  let repaired = row.length !== 3;
+  const values = row.slice(0, 3).map((value) => {
+    if (lenient && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      repaired = true;
+      return Number(value);
+    }
+    return value;
+  });
+  
+  if (values.some((value) => typeof value !== 'number' || isNaN(value))) return { reason: 'nan' };
+  const [lat, , alt] = values as RawPosition;
+  let lon = values[1] as number;
+  
+  if (lat < -90 || lat > 90) return { reason: 'lat-range' };
+  if (lon < -180 || lon > 180) {
+    if (!lenient || !isFinite(lon)) return { reason: 'lon-range' };
+    lon = normalizeLongitude(lon);
+    repaired = true;
+  }
+  if (alt < -500 || alt > 50000) return { reason: 'alt-range' };
+  
+  return { position: [lat, lon, alt], repaired };
+}
+
+// Check if position is valid [lat, lon, alt]
+export function isValidPosition(arr: unknown): arr is RawPosition {
+  return 'position' in checkPosition(arr, false);
 }
 
-// Parse response and filter invalid data
-function parseConstellationResponse(data: unknown, hoursAgo: number): BalloonPosition[] {
-  if (!Array.isArray(data)) return [];
+// Parse response, filter invalid data and tally why rows were dropped
+function parseConstellationResponse(
+  data: unknown,
+  lenient: boolean
+): Pick<HourDiagnostics, 'totalRows' | 'acceptedRows' | 'repairedRows' | 'rejected' | 'error'> & { rows: RawPosition[] } {
+  const rejected = emptyRejections();
+  if (!Array.isArray(data)) {
+    return { rows: [], totalRows: 0, acceptedRows: 0, repairedRows: 0, rejected, error: 'Response is not an array' };
+  }
   
-  return data
-    .filter(isValidPosition)
-    .map(([lat, lon, alt]) => ({
-      latitude: lat,
-      longitude: lon,
-      altitude: alt,
-      timestamp: hoursAgo,
-    }));
+  const rows: RawPosition[] = [];
+  let repairedRows = 0;
+  data.forEach((row) => {
+    const result = checkPosition(row, lenient);
+    if ('reason' in result) {
+      rejected[result.reason]++;
+      return;
+    }
+    rows.push(result.position);
+    if (result.repaired) repairedRows++;
+  });
+  
+  return { rows, totalRows: data.length, acceptedRows: rows.length, repairedRows, rejected };
+}
+
+function toPositions(rows: RawPosition[], hoursAgo: number): BalloonPosition[] {
+  return rows.map(([lat, lon, alt]) => ({
+    latitude: lat,
+    longitude: lon,
+    altitude: alt,
+    timestamp: hoursAgo,
+  }));
 }
 
-// Fetch data for one hour
-async function fetchConstellationHour(hoursAgo: number): Promise<BalloonPosition[]> {
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Exponential, with equal jitter so hours that failed together don't retry in lockstep
+function retryDelay(attempt: number): number {
+  const delay = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempt - 1));
+  return delay / 2 + (Math.random() * delay) / 2;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// One attempt at an hour file, filling in diagnostics; retry is set when the
+// failure looks transient
+async function attemptHour(
+  hoursAgo: number,
+  options: FetchOptions,
+  diagnostics: HourDiagnostics
+): Promise<{ rows: RawPosition[] | null; retry: boolean }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  
   try {
-    const proxyUrl = '/.netlify/functions/constellation?hour=' + hoursAgo;
-    const directUrl = `https://a.windbornesystems.com/treasure/${String(hoursAgo).padStart(2, '0')}.json`;
-    
-    let url = proxyUrl;
-    let response = await fetch(url);
-    
-    if (!response.ok && response.status === 404) {
-      url = directUrl;
-      response = await fetch(url);
-    }
+    const { response, source, url } = await getDataSource().fetchHour(hoursAgo, controller.signal);
+    diagnostics.source = source;
+    diagnostics.url = url;
+    diagnostics.status = response.status;
     
     if (!response.ok) {
       console.warn(`Failed to fetch hour ${hoursAgo}: ${response.status}`);
-      return [];
+      diagnostics.error = `HTTP ${response.status}`;
+      return { rows: null, retry: isRetryableStatus(response.status) };
+    }
+    
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch {
+      diagnostics.error = controller.signal.aborted ? 'Timed out' : 'Invalid JSON';
+      return { rows: null, retry: true };
     }
-    const data = await response.json();
-    return parseConstellationResponse(data, hoursAgo);
+    
+    const { rows, ...report } = parseConstellationResponse(data, options.lenient ?? false);
+    Object.assign(diagnostics, report);
+    return { rows, retry: false };
   } catch (error) {
-    console.error(`Error fetching hour ${hoursAgo}:`, error);
-    return [];
+    const timedOut = controller.signal.aborted;
+    console.warn(`Error fetching hour ${hoursAgo}:`, timedOut ? 'timed out' : error);
+    diagnostics.error = timedOut ? 'Timed out' : error instanceof Error ? error.message : 'Network error';
+    return { rows: null, retry: true };
+  } finally {
+    clearTimeout(timeoutId);
   }
 }
 
-// Fetch 24 hours of history
-export async function fetchConstellationHistory(): Promise<ConstellationData[]> {
-  const hours = Array.from({ length: 24 }, (_, i) => i);
+// Fetch data for one hour with retries, recording diagnostics; null when
+// every attempt failed
+async function fetchConstellationHour(
+  hoursAgo: number,
+  options: FetchOptions = {},
+  now: number = getDataSource().now()
+): Promise<RawPosition[] | null> {
+  const diagnostics: HourDiagnostics = {
+    hour: hoursAgo,
+    hourStart: snapshotHourStart(hoursAgo, now),
+    source: null,
+    url: null,
+    status: null,
+    totalRows: 0,
+    acceptedRows: 0,
+    repairedRows: 0,
+    rejected: emptyRejections(),
+    servedFromCache: false,
+    checkedAt: Date.now(),
+    attempts: 0,
+    pending: true,
+  };
+  diagnosticsByHour.set(diagnostics.hourStart, diagnostics);
+  options.onDiagnostics?.();
   
-  const results = await Promise.all(
-    hours.map(async (hour) => ({
+  try {
+    for (let attempt = 1; ; attempt++) {
+      diagnostics.attempts = attempt;
+      const { rows, retry } = await attemptHour(hoursAgo, options, diagnostics);
+      diagnostics.checkedAt = Date.now();
+      if (!retry || attempt >= MAX_ATTEMPTS) return rows;
+      
+      options.onDiagnostics?.();
+      await wait(retryDelay(attempt));
+      delete diagnostics.error;
+      diagnostics.status = null;
+      options.onDiagnostics?.();
+    }
+  } finally {
+    diagnostics.pending = false;
+    options.onDiagnostics?.();
+  }
+}
+
+// Payload of netlify/functions/history.js
+interface AggregatedHour {
+  hour: number;
+  hourStart: number;
+  status: number | null;
+  error?: string;
+  totalRows: number;
+  acceptedRows: number;
+  repairedRows: number;
+  rejected: Record<RejectReason, number>;
+  rows: RawPosition[] | null;
+}
+
+interface AggregatedHistory {
+  latestHourStart: number; // ms, the server's current UTC hour
+  hours: AggregatedHour[];
+}
+
+const AGGREGATE_URL = '/.netlify/functions/history';
+
+function isAggregatedHistory(data: unknown): data is AggregatedHistory {
+  const payload = data as AggregatedHistory | null;
+  return (
+    typeof payload?.latestHourStart === 'number' &&
+    Array.isArray(payload.hours) &&
+    payload.hours.every((h) => typeof h?.hour === 'number' && (h.rows === null || Array.isArray(h.rows)))
+  );
+}
+
+// The whole window in one request via the aggregating function (validated
+// server-side with the same rules). Null when the function isn't available
+// or misbehaves, so the caller can fall back to per-hour requests.
+async function fetchAggregatedHistory(
+  options: FetchOptions
+): Promise<{ now: number; rows: Array<RawPosition[] | null> } | null> {
+  const url = options.lenient ? `${AGGREGATE_URL}?lenient=1` : AGGREGATE_URL;
+  try {
+    // The browser revalidates with If-None-Match, so an unchanged window is a 304
+    const response = await fetch(url, { signal: AbortSignal.timeout(AGGREGATE_TIMEOUT) });
+    if (!response.ok) return null;
+    const payload: unknown = await response.json();
+    if (!isAggregatedHistory(payload)) return null;
+
+    const checkedAt = Date.now();
+    payload.hours.forEach(({ rows, ...report }) => {
+      diagnosticsByHour.set(report.hourStart, {
+        ...report,
+        source: 'aggregate',
+        url,
+        servedFromCache: false,
+        checkedAt,
+        attempts: 1,
+        pending: false,
+      });
+      if (!rows) console.warn(`Failed to fetch hour ${report.hour}: ${report.error}`);
+    });
+    return {
+      now: payload.latestHourStart,
+      rows: HOURS.map((hour) => payload.hours.find((h) => h.hour === hour)?.rows ?? null),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Diagnostics for the current 24-hour window, newest hour first
+export function getConstellationDiagnostics(): HourDiagnostics[] {
+  const latestStart = snapshotHourStart(0);
+  return Array.from(diagnosticsByHour.values())
+    .map((d) => ({ ...d, hour: Math.round((latestStart - d.hourStart) / HOUR_MS) }))
+    .filter((d) => d.hour >= 0 && d.hour < HOURS.length)
+    .sort((a, b) => a.hour - b.hour);
+}
+
+// Hours of the current 24-hour window available in the offline cache
+export async function loadCachedConstellationHistory(options: FetchOptions = {}): Promise<ConstellationData[]> {
+  await getDataSource().prepare();
+  const now = getDataSource().now();
+  const keys = HOURS.map((hour) => cacheKey(snapshotHourStart(hour, now), options));
+  const cached = await cacheGetMany<RawPosition[]>('constellation', keys);
+  
+  return HOURS.flatMap((hour) => {
+    const entry = cached.get(keys[hour]);
+    if (!entry || entry.value.length === 0) return [];
+    return [{
       hour,
-      positions: await fetchConstellationHour(hour),
-      timestamp: new Date(Date.now() - hour * 60 * 60 * 1000),
-    }))
+      positions: toPositions(entry.value, hour),
+      timestamp: new Date(snapshotHourStart(hour, now)),
+      cachedAt: new Date(entry.storedAt),
+    }];
+  });
+}
+
+// Fetch 24 hours of history from the active data source, refreshing the
+// offline cache. Live data uses the aggregated endpoint when it's deployed
+// (its clock then anchors the window), otherwise one request per hour.
+// Hours missing from the aggregate are retried one by one, and hours that
+// still fail fall back to their cached copy.
+export async function fetchConstellationHistory(options: FetchOptions = {}): Promise<ConstellationData[]> {
+  const source = getDataSource();
+  await source.prepare();
+  const aggregated = source.aggregate ? await fetchAggregatedHistory(options) : null;
+  if (aggregated) options.onDiagnostics?.();
+  const now = aggregated?.now ?? source.now();
+  const fetched = await Promise.all(
+    HOURS.map((hour) => aggregated?.rows[hour] ?? fetchConstellationHour(hour, options, now))
   );
   
+  await cachePutMany(
+    'constellation',
+    HOURS.flatMap((hour) => {
+      const rows = fetched[hour];
+      return rows ? [{ key: cacheKey(snapshotHourStart(hour, now), options), value: rows }] : [];
+    })
+  );
+  void cachePrune('constellation', now - CACHE_MAX_AGE);
+  
+  const failedHours = HOURS.filter((hour) => fetched[hour] === null);
+  const fallback = await cacheGetMany<RawPosition[]>(
+    'constellation',
+    failedHours.map((hour) => cacheKey(snapshotHourStart(hour, now), options))
+  );
+  
+  const results: ConstellationData[] = HOURS.map((hour) => {
+    const rows = fetched[hour];
+    const cached = rows ? undefined : fallback.get(cacheKey(snapshotHourStart(hour, now), options));
+    const diagnostics = diagnosticsByHour.get(snapshotHourStart(hour, now));
+    if (cached && diagnostics) diagnostics.servedFromCache = true;
+    return {
+      hour,
+      positions: toPositions(rows ?? cached?.value ?? [], hour),
+      timestamp: new Date(snapshotHourStart(hour, now)),
+      cachedAt: cached ? new Date(cached.storedAt) : undefined,
+    };
+  });
+  
   return results
     .filter((data) => data.positions.length > 0)
     .sort((a, b) => a.hour - b.hour);
 }
+
+export interface HistoryRefresh {
+  history: ConstellationData[];
+  shiftedBy: number; // hours the existing snapshots moved back
+}
+
+function samePositions(positions: BalloonPosition[], rows: RawPosition[]): boolean {
+  return (
+    positions.length === rows.length &&
+    positions.every((p, i) => p.latitude === rows[i][0] && p.longitude === rows[i][1] && p.altitude === rows[i][2])
+  );
+}
+
+// Re-label snapshots after the window has rolled forward: old hour 0 becomes hour 1
+function shiftHistory(history: ConstellationData[], hours: number): ConstellationData[] {
+  return history
+    .filter((data) => data.hour + hours < HOURS.length)
+    .map((data) => ({
+      ...data,
+      hour: data.hour + hours,
+      positions: data.positions.map((p) => ({ ...p, timestamp: p.timestamp + hours })),
+    }));
+}
+
+// Poll 00.json and roll the window forward once a new hour is published.
+// Only new files are downloaded; returns null when nothing changed.
+export async function refreshConstellationHistory(
+  history: ConstellationData[],
+  options: FetchOptions = {}
+): Promise<HistoryRefresh | null> {
+  const now = getDataSource().now();
+  const latestRows = await fetchConstellationHour(0, options, now);
+  if (!latestRows) return null;
+  
+  // Same file as before: either nothing new, or the next hour isn't out yet
+  const previousLatest = history.find((data) => data.hour === 0);
+  if (previousLatest && samePositions(previousLatest.positions, latestRows)) return null;
+  
+  // Hours the clock says have passed since the window was anchored. Only a
+  // hint: the files may not have rolled yet, or 00.json may be revised in place.
+  const anchor = history.length > 0
+    ? history[0].timestamp.getTime() + history[0].hour * HOUR_MS
+    : snapshotHourStart(0, now);
+  const elapsed = Math.max(0, Math.round((snapshotHourStart(0, now) - anchor) / HOUR_MS));
+  
+  // The window rolled by k hours if the old latest snapshot is now k.json.
+  // Files before it are the hours published in between.
+  const candidates = HOURS.slice(1, Math.min(Math.max(elapsed, 1), HOURS.length - 1) + 1);
+  const candidateRows = await Promise.all(candidates.map((hour) => fetchConstellationHour(hour, options, now)));
+  const rolledTo = candidates.find((_, i) => {
+    const rows = candidateRows[i];
+    return previousLatest !== undefined && rows !== null && samePositions(previousLatest.positions, rows);
+  });
+  
+  // No match: an in-place revision of 00.json, unless the whole window is stale
+  let shiftedBy = rolledTo ?? 0;
+  if (rolledTo === undefined && (!previousLatest || elapsed >= HOURS.length)) shiftedBy = elapsed;
+  
+  const fresh: Array<{ hour: number; rows: RawPosition[] }> = [{ hour: 0, rows: latestRows }];
+  candidates.forEach((hour, i) => {
+    const rows = candidateRows[i];
+    if (rows && hour < shiftedBy) fresh.push({ hour, rows });
+  });
+  
+  await cachePutMany(
+    'constellation',
+    fresh.map(({ hour, rows }) => ({ key: cacheKey(snapshotHourStart(hour, now), options), value: rows }))
+  );
+  
+  // Labels follow the files (N.json is N hours ago), so re-time what is kept
+  const kept = shiftHistory(shiftedBy > 0 ? history : history.filter((data) => data.hour !== 0), shiftedBy).map(
+    (data) => ({ ...data, timestamp: new Date(snapshotHourStart(data.hour, now)) })
+  );
+  const updated = [
+    ...fresh.map(({ hour, rows }) => ({
+      hour,
+      positions: toPositions(rows, hour),
+      timestamp: new Date(snapshotHourStart(hour, now)),
+    })),
+    ...kept.filter((data) => !fresh.some((f) => f.hour === data.hour)),
+  ];
+  
+  return {
+    history: updated
+      .filter((data) => data.positions.length > 0)
+      .sort((a, b) => a.hour - b.hour),
+    shiftedBy,
+  };
+}
+
+// Re-fetch one hour of the current window (e.g. one that failed) and splice
+// it into the history. Null when it still fails, or when the window has
+// rolled forward since the history was loaded (the next refresh catches up).
+export async function reloadConstellationHour(
+  history: ConstellationData[],
+  hour: number,
+  options: FetchOptions = {}
+): Promise<ConstellationData[] | null> {
+  const now = getDataSource().now();
+  const anchor = history.length > 0 ? history[0].timestamp.getTime() + history[0].hour * HOUR_MS : null;
+  if (anchor !== null && anchor !== snapshotHourStart(0, now)) return null;
+  
+  const rows = await fetchConstellationHour(hour, options, now);
+  if (!rows) return null;
+  await cachePutMany('constellation', [{ key: cacheKey(snapshotHourStart(hour, now), options), value: rows }]);
+  
+  const others = history.filter((data) => data.hour !== hour);
+  if (rows.length === 0) return others;
+  return [
+    ...others,
+    { hour, positions: toPositions(rows, hour), timestamp: new Date(snapshotHourStart(hour, now)) },
+  ].sort((a, b) => a.hour - b.hour);
+}
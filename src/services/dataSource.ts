@@ -0,0 +1,192 @@
+// Where constellation hour files and weather responses come from:
+//
+//   live            WindBorne / Open-Meteo through the Netlify proxies, direct as fallback
+//   replay:<name>   a recording in public/recordings/<name>/ (or replay:<url> for any
+//                   server with NN.json files); no network, clock pinned to the recording
+//   record:<name>   live, with every response also written to public/recordings/<name>/
+//                   (needs the Vite dev server, which accepts the writes)
+//
+// Chosen with ?source=... in the page URL, else VITE_DATA_SOURCE, else live.
+// A shared link can only replay a recording or a same-origin path; other
+// servers need VITE_DATA_SOURCE or the dev server.
+
+export type DataSourceMode = 'live' | 'replay' | 'record';
+
+export interface HourResponse {
+  response: Response;
+  source: 'proxy' | 'direct' | 'replay';
+  url: string;
+}
+
+export interface DataSource {
+  mode: DataSourceMode;
+  name: string | null; // recording name or replay base
+  spec: string; // as given in ?source= / VITE_DATA_SOURCE
+  aggregate: boolean; // whether the aggregated history endpoint may be used
+  persistent: boolean; // whether the offline cache may be read and written
+  prepare: () => Promise<void>; // load anything now() depends on
+  now: () => number; // ms; replay answers with the recording's time
+  fetchHour: (hour: number, signal: AbortSignal) => Promise<HourResponse>;
+  fetchWeather: (params: URLSearchParams, signal: AbortSignal) => Promise<Response>;
+}
+
+// Written alongside the hour files when recording
+interface RecordingManifest {
+  latestHourStart: number; // ms, the UTC hour 00.json described
+  recordedAt: number; // ms
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const RECORDINGS_PATH = `${import.meta.env.BASE_URL}recordings/`;
+const RECORD_ENDPOINT = '/__recordings/';
+
+function hourFile(hour: number): string {
+  return `${String(hour).padStart(2, '0')}.json`;
+}
+
+// FNV-1a, so a weather request maps to the same file when recording and replaying
+function hashParams(params: URLSearchParams): string {
+  let hash = 0x811c9dc5;
+  for (const char of params.toString()) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function weatherFile(params: URLSearchParams): string {
+  return `weather/${hashParams(params)}.json`;
+}
+
+function createLiveSource(): DataSource {
+  return {
+    mode: 'live',
+    name: null,
+    spec: 'live',
+    aggregate: true,
+    persistent: true,
+    prepare: async () => {},
+    now: () => Date.now(),
+    async fetchHour(hour, signal) {
+      const proxyUrl = '/.netlify/functions/constellation?hour=' + hour;
+      const response = await fetch(proxyUrl, { signal });
+      if (!response.ok && response.status === 404) {
+        const directUrl = `https://a.windbornesystems.com/treasure/${hourFile(hour)}`;
+        return { response: await fetch(directUrl, { signal }), source: 'direct', url: directUrl };
+      }
+      return { response, source: 'proxy', url: proxyUrl };
+    },
+    async fetchWeather(params, signal) {
+      const response = await fetch(`/.netlify/functions/weather?${params}`, { signal });
+      if (!response.ok && response.status !== 429) {
+        return fetch(`https://api.open-meteo.com/v1/forecast?${params}`, { signal });
+      }
+      return response;
+    },
+  };
+}
+
+// Where a replay reads from, or null when the name isn't allowed here
+function replayBase(name: string, trusted: boolean): string | null {
+  if (/^[\w-]+$/.test(name)) return `${RECORDINGS_PATH}${name}/`;
+  const sameOrigin = /^\/(?![/\\])/.test(name) && !name.includes('\\');
+  if (sameOrigin || (trusted && /^https?:\/\//.test(name))) return name.replace(/\/?$/, '/');
+  return null;
+}
+
+function createReplaySource(base: string, name: string, spec: string): DataSource {
+  let manifest: RecordingManifest | null = null;
+  let loading: Promise<void> | null = null;
+
+  return {
+    mode: 'replay',
+    name,
+    spec,
+    aggregate: false,
+    persistent: false,
+    prepare() {
+      loading ??= fetch(`${base}manifest.json`)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data: RecordingManifest | null) => {
+          manifest = typeof data?.latestHourStart === 'number' ? data : null;
+          if (!manifest) console.warn(`No manifest for replay ${name}; using the current hour`);
+        })
+        .catch(() => console.warn(`Could not load manifest for replay ${name}`));
+      return loading;
+    },
+    // Mid-hour, so hour arithmetic lands on the recorded hours
+    now: () => (manifest ? manifest.latestHourStart + HOUR_MS / 2 : Date.now()),
+    async fetchHour(hour, signal) {
+      const url = `${base}${hourFile(hour)}`;
+      return { response: await fetch(url, { signal }), source: 'replay', url };
+    },
+    fetchWeather: (params, signal) => fetch(`${base}${weatherFile(params)}`, { signal }),
+  };
+}
+
+// Fire-and-forget write through the dev server
+function save(name: string, path: string, body: string) {
+  fetch(`${RECORD_ENDPOINT}${encodeURIComponent(name)}/${path}`, { method: 'PUT', body }).catch((error) => {
+    console.warn(`Recording ${path} failed:`, error);
+  });
+}
+
+// Live data with a copy of each successful response written to disk
+function createRecordingSource(name: string, spec: string): DataSource {
+  const live = createLiveSource();
+  let recordedHour: number | null = null;
+  // Once the hour rolls over, 00.json no longer matches the manifest
+  const sameWindow = () => Math.floor(Date.now() / HOUR_MS) * HOUR_MS === recordedHour;
+
+  return {
+    ...live,
+    mode: 'record',
+    name,
+    spec,
+    // Replay reads raw hour files, which the aggregated payload doesn't carry
+    aggregate: false,
+    // Offline-cache hits would never reach the network, so never be recorded
+    persistent: false,
+    async prepare() {
+      if (recordedHour !== null) return;
+      const now = Date.now();
+      recordedHour = Math.floor(now / HOUR_MS) * HOUR_MS;
+      const manifest: RecordingManifest = { latestHourStart: recordedHour, recordedAt: now };
+      save(name, 'manifest.json', JSON.stringify(manifest, null, 2));
+    },
+    async fetchHour(hour, signal) {
+      const result = await live.fetchHour(hour, signal);
+      if (result.response.ok && sameWindow()) save(name, hourFile(hour), await result.response.clone().text());
+      return result;
+    },
+    async fetchWeather(params, signal) {
+      const response = await live.fetchWeather(params, signal);
+      if (response.ok) save(name, weatherFile(params), await response.clone().text());
+      return response;
+    },
+  };
+}
+
+// trusted: the spec comes from the build or dev setup, not the page URL
+export function createDataSource(spec: string, trusted = false): DataSource {
+  const separator = spec.indexOf(':');
+  const mode = separator === -1 ? spec : spec.slice(0, separator);
+  const name = separator === -1 ? '' : spec.slice(separator + 1);
+
+  const base = mode === 'replay' ? replayBase(name, trusted) : null;
+  if (base) return createReplaySource(base, name, spec);
+  if (mode === 'record' && /^[\w-]+$/.test(name)) return createRecordingSource(name, spec);
+  if (mode === 'replay' && name) console.warn(`Replaying "${name}" needs VITE_DATA_SOURCE or the dev server; using live data`);
+  else if (spec !== 'live') console.warn(`Unknown data source "${spec}"; using live data`);
+  return createLiveSource();
+}
+
+// Fixed for the page's lifetime; switching source reloads the page
+const querySource = new URLSearchParams(window.location.search).get('source');
+const activeSource = querySource !== null
+  ? createDataSource(querySource, import.meta.env.DEV)
+  : createDataSource(import.meta.env.VITE_DATA_SOURCE ?? 'live', true);
+
+export function getDataSource(): DataSource {
+  return activeSource;
+}
@@ -0,0 +1,35 @@
+// Geofences persisted in localStorage
+
+import { isGeofence } from '../utils/geofences';
+import type { Geofence } from '../utils/geofences';
+
+const STORAGE_KEY = 'windborne-tracker:geofences';
+
+export function loadGeofences(): Geofence[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) return [];
+
+    // Drop malformed entries (and repeated IDs) rather than the whole list
+    const ids = new Set<number>();
+    const fences = parsed.filter((fence): fence is Geofence => {
+      if (!isGeofence(fence) || ids.has(fence.id)) return false;
+      ids.add(fence.id);
+      return true;
+    });
+    if (fences.length < parsed.length) console.warn(`Dropped ${parsed.length - fences.length} invalid saved geofence(s)`);
+    return fences;
+  } catch (err) {
+    console.warn('Could not read saved geofences:', err);
+    return [];
+  }
+}
+
+export function saveGeofences(fences: Geofence[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(fences));
+  } catch (err) {
+    console.warn('Could not save geofences:', err);
+  }
+}
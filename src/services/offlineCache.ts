@@ -0,0 +1,120 @@
+// Persistent IndexedDB cache backing constellation and weather data
+
+import { getDataSource } from './dataSource';
+
+const DB_NAME = 'windborne-tracker';
+const DB_VERSION = 1;
+
+export type CacheStoreName = 'constellation' | 'weather';
+const STORES: CacheStoreName[] = ['constellation', 'weather'];
+
+export interface CacheEntry<T> {
+  key: string | number;
+  value: T;
+  storedAt: number; // ms
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Open (or create) the database; resolves null where IndexedDB is unavailable
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      // Replays must not mix in (or overwrite) data cached from live sessions
+      if (typeof indexedDB === 'undefined' || !getDataSource().persistent) {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) {
+            const store = db.createObjectStore(name, { keyPath: 'key' });
+            store.createIndex('storedAt', 'storedAt');
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Offline cache unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Read several keys in one transaction; missing keys are simply absent
+export async function cacheGetMany<T>(
+  storeName: CacheStoreName,
+  keys: Array<string | number>
+): Promise<Map<string | number, CacheEntry<T>>> {
+  const found = new Map<string | number, CacheEntry<T>>();
+  const db = await openDatabase();
+  if (!db || keys.length === 0) return found;
+
+  try {
+    const tx = db.transaction(storeName, 'readonly');
+    const store = tx.objectStore(storeName);
+    keys.forEach((key) => {
+      const request = store.get(key);
+      request.onsuccess = () => {
+        if (request.result) found.set(key, request.result as CacheEntry<T>);
+      };
+    });
+    await transactionDone(tx);
+  } catch (error) {
+    console.warn(`Offline cache read failed (${storeName}):`, error);
+  }
+  return found;
+}
+
+// Write several entries in one transaction, stamped with the current time
+export async function cachePutMany<T>(
+  storeName: CacheStoreName,
+  entries: Array<{ key: string | number; value: T }>
+): Promise<void> {
+  const db = await openDatabase();
+  if (!db || entries.length === 0) return;
+
+  try {
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    const storedAt = Date.now();
+    entries.forEach(({ key, value }) => store.put({ key, value, storedAt }));
+    await transactionDone(tx);
+  } catch (error) {
+    console.warn(`Offline cache write failed (${storeName}):`, error);
+  }
+}
+
+// Drop entries stored before a cutoff so the cache doesn't grow forever
+export async function cachePrune(storeName: CacheStoreName, storedBefore: number): Promise<void> {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    const tx = db.transaction(storeName, 'readwrite');
+    const request = tx.objectStore(storeName).index('storedAt').openCursor(IDBKeyRange.upperBound(storedBefore, true));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    await transactionDone(tx);
+  } catch (error) {
+    console.warn(`Offline cache prune failed (${storeName}):`, error);
+  }
+}
@@ -0,0 +1,260 @@
+// Forward trajectory prediction: advect balloons with Open-Meteo winds aloft
+
+import { altitudeToPressure, bracketPressureLevels } from '../utils/atmosphere';
+import { destinationPoint, haversineDistance, longitudeDelta } from '../utils/geo';
+import type { LatLon } from '../utils/geo';
+import type { TrackKinematics } from '../utils/kinematics';
+import type { BalloonTrack, TrackSet } from '../utils/tracks';
+import type { ConstellationData } from './constellationApi';
+import { fetchWindSeries, getCachedWind, windCell } from './weatherApi';
+import type { WindVector } from './weatherApi';
+
+export type VerticalMode = 'constant' | 'trend';
+
+export interface PredictionOptions {
+  hours: number;
+  vertical: VerticalMode;
+}
+
+export interface PredictionStart extends LatLon {
+  trackId: string;
+  altitude: number;
+  verticalRate: number; // m/s over the last observed step
+  time: Date;
+}
+
+export interface PredictedPoint extends LatLon {
+  // Longitude is unwrapped so the path stays continuous across ±180°
+  altitude: number;
+  hoursAhead: number;
+  radiusKm: number; // uncertainty cone radius
+}
+
+export interface PredictedTrack {
+  trackId: string;
+  points: PredictedPoint[]; // starts with the observed position
+  complete: boolean; // false if winds ran out before the horizon
+}
+
+export interface BacktestResult {
+  hours: number; // oldest to latest snapshot
+  count: number;
+  medianErrorKm: number;
+  meanErrorKm: number;
+  p90ErrorKm: number;
+  persistenceMedianKm: number; // error of assuming the balloon stayed put
+  withinCone: number; // fraction of actual positions inside the cone
+}
+
+export const PREDICTION_HORIZONS = [6, 12, 24, 36, 48];
+
+// More balloons than this means too many wind requests for one run
+export const MAX_PREDICTED_BALLOONS = 50;
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_ALTITUDE = 30000;
+
+// Cone radius: a rough allowance for forecast wind error, grid resolution
+// and unmodelled vertical drift, growing linearly with lead time
+const CONE_BASE_KM = 10;
+const CONE_GROWTH_KM_PER_HOUR = 12;
+
+function coneRadius(hoursAhead: number): number {
+  return CONE_BASE_KM + CONE_GROWTH_KM_PER_HOUR * hoursAhead;
+}
+
+function levelsFor(altitude: number): { lower: number; upper: number; weight: number } {
+  return bracketPressureLevels(altitudeToPressure(altitude));
+}
+
+// Wind at a position, altitude and time: nearest grid cell, interpolated
+// between the bracketing pressure levels and the surrounding hours
+function windAt(p: LatLon, altitude: number, timeMs: number): WindVector | null {
+  const { lower, upper, weight } = levelsFor(altitude);
+  const cell = windCell(p.latitude, p.longitude);
+  const atHour = (hourMs: number): WindVector | null => {
+    const a = getCachedWind(cell, lower, hourMs);
+    const b = getCachedWind(cell, upper, hourMs);
+    if (!a || !b) return null;
+    return { u: a.u + (b.u - a.u) * weight, v: a.v + (b.v - a.v) * weight };
+  };
+
+  const hour = Math.floor(timeMs / HOUR_MS) * HOUR_MS;
+  const t = (timeMs - hour) / HOUR_MS;
+  const before = atHour(hour);
+  if (!before || t === 0) return before;
+  const after = atHour(hour + HOUR_MS);
+  if (!after) return null;
+  return { u: before.u + (after.u - before.u) * t, v: before.v + (after.v - before.v) * t };
+}
+
+// Fetch every level and cell the given positions need across the run
+async function loadWinds(points: Array<{ position: LatLon; altitude: number }>, start: Date, end: Date) {
+  const byLevel = new Map<number, Array<{ latitude: number; longitude: number }>>();
+  points.forEach(({ position, altitude }) => {
+    const { lower, upper } = levelsFor(altitude);
+    const cell = windCell(position.latitude, position.longitude);
+    new Set([lower, upper]).forEach((level) => {
+      const cells = byLevel.get(level) ?? [];
+      cells.push(cell);
+      byLevel.set(level, cells);
+    });
+  });
+  await Promise.all(Array.from(byLevel.entries()).map(([level, cells]) => fetchWindSeries(cells, level, start, end)));
+}
+
+function advance(p: LatLon, wind: WindVector, hours: number): LatLon {
+  const speed = Math.hypot(wind.u, wind.v);
+  const bearing = (Math.atan2(wind.u, wind.v) * 180) / Math.PI;
+  return destinationPoint(p, bearing, speed * hours);
+}
+
+interface Flight {
+  start: PredictionStart;
+  position: LatLon; // normalised longitude
+  altitude: number;
+  points: PredictedPoint[];
+  complete: boolean;
+}
+
+// Step each balloon forward one hour at a time (midpoint method), stopping a
+// balloon early if the wind it needs is unavailable
+export async function predictTrajectories(
+  starts: PredictionStart[],
+  options: PredictionOptions,
+  onProgress?: (fraction: number) => void
+): Promise<PredictedTrack[]> {
+  if (starts.length === 0) return [];
+  const times = starts.map((s) => s.time.getTime());
+  const rangeStart = new Date(Math.min(...times));
+  const rangeEnd = new Date(Math.max(...times) + (options.hours + 1) * HOUR_MS);
+
+  const flights: Flight[] = starts.map((start) => ({
+    start,
+    position: { latitude: start.latitude, longitude: start.longitude },
+    altitude: start.altitude,
+    points: [{ latitude: start.latitude, longitude: start.longitude, altitude: start.altitude, hoursAhead: 0, radiusKm: CONE_BASE_KM }],
+    complete: true,
+  }));
+  const altitudeAfter = (flight: Flight, hours: number) =>
+    options.vertical === 'trend'
+      ? Math.max(0, Math.min(MAX_ALTITUDE, flight.altitude + flight.start.verticalRate * 3600 * hours))
+      : flight.altitude;
+
+  for (let step = 1; step <= options.hours; step++) {
+    const active = flights.filter((f) => f.complete);
+    if (active.length === 0) break;
+
+    await loadWinds(active.map((f) => ({ position: f.position, altitude: f.altitude })), rangeStart, rangeEnd);
+    const midpoints = active.map((flight) => {
+      const timeMs = flight.start.time.getTime() + (step - 1) * HOUR_MS;
+      const wind = windAt(flight.position, flight.altitude, timeMs);
+      if (!wind) return null;
+      return { position: advance(flight.position, wind, 0.5), altitude: altitudeAfter(flight, 0.5) };
+    });
+
+    await loadWinds(midpoints.filter((m) => m !== null), rangeStart, rangeEnd);
+    active.forEach((flight, i) => {
+      const mid = midpoints[i];
+      const timeMs = flight.start.time.getTime() + (step - 0.5) * HOUR_MS;
+      const wind = mid && windAt(mid.position, mid.altitude, timeMs);
+      if (!wind) {
+        flight.complete = false;
+        return;
+      }
+
+      const next = advance(flight.position, wind, 1);
+      const last = flight.points[flight.points.length - 1];
+      flight.altitude = altitudeAfter(flight, 1);
+      flight.position = next;
+      flight.points.push({
+        latitude: next.latitude,
+        longitude: last.longitude + longitudeDelta(last.longitude, next.longitude),
+        altitude: flight.altitude,
+        hoursAhead: step,
+        radiusKm: coneRadius(step),
+      });
+    });
+    onProgress?.(step / options.hours);
+  }
+
+  return flights.map((f) => ({ trackId: f.start.trackId, points: f.points, complete: f.complete }));
+}
+
+// Start a prediction from a track's sighting in the given hour, carrying the
+// vertical rate observed on the way into it
+export function startFromTrack(
+  track: BalloonTrack,
+  hour: number,
+  kinematics: Map<string, TrackKinematics>
+): PredictionStart | null {
+  const point = track.points.find((p) => p.hour === hour);
+  if (!point) return null;
+  return {
+    trackId: track.id,
+    latitude: point.latitude,
+    longitude: point.longitude,
+    altitude: point.altitude,
+    verticalRate: kinematics.get(track.id)?.byHour.get(hour)?.verticalRate ?? 0,
+    time: point.time,
+  };
+}
+
+// Evenly spaced subset, keeping runs within the request budget
+export function sampleEvenly<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  return Array.from({ length: max }, (_, i) => items[Math.floor((i * items.length) / max)]);
+}
+
+function quantile(sorted: number[], q: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+}
+
+// Predict from the oldest snapshot and score against where the same tracks
+// were seen in the latest one
+export async function runBacktest(
+  history: ConstellationData[],
+  trackSet: TrackSet,
+  kinematics: Map<string, TrackKinematics>,
+  vertical: VerticalMode,
+  onProgress?: (fraction: number) => void
+): Promise<BacktestResult | null> {
+  if (history.length < 2) return null;
+  const hours = history.map((d) => d.hour);
+  const oldest = Math.max(...hours);
+  const latest = Math.min(...hours);
+
+  const pairs = trackSet.tracks.flatMap((track) => {
+    const start = startFromTrack(track, oldest, kinematics);
+    const actual = track.points.find((p) => p.hour === latest);
+    return start && actual ? [{ start, actual }] : [];
+  });
+  const sample = sampleEvenly(pairs, MAX_PREDICTED_BALLOONS);
+  if (sample.length === 0) return null;
+
+  const predicted = await predictTrajectories(
+    sample.map((s) => s.start),
+    { hours: oldest - latest, vertical },
+    onProgress
+  );
+
+  const scored = predicted.flatMap((track, i) => {
+    if (!track.complete) return [];
+    const final = track.points[track.points.length - 1];
+    const { start, actual } = sample[i];
+    return [{ error: haversineDistance(final, actual), persistence: haversineDistance(start, actual), radius: final.radiusKm }];
+  });
+  if (scored.length === 0) return null;
+
+  const errors = scored.map((s) => s.error).sort((a, b) => a - b);
+  const persistence = scored.map((s) => s.persistence).sort((a, b) => a - b);
+  return {
+    hours: oldest - latest,
+    count: scored.length,
+    medianErrorKm: quantile(errors, 0.5),
+    meanErrorKm: errors.reduce((sum, e) => sum + e, 0) / errors.length,
+    p90ErrorKm: quantile(errors, 0.9),
+    persistenceMedianKm: quantile(persistence, 0.5),
+    withinCone: scored.filter((s) => s.error <= s.radius).length / scored.length,
+  };
+}
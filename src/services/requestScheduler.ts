@@ -0,0 +1,85 @@
+// Token-bucket request scheduler
+
+export interface SchedulerOptions {
+  capacity: number; // burst size (tokens)
+  refillPerSecond: number;
+  maxConcurrent: number;
+}
+
+export interface RequestScheduler {
+  schedule<T>(task: () => Promise<T>): Promise<T>;
+  pauseUntil(time: Date): void;
+  pendingCount(): number;
+}
+
+// Tasks start in FIFO order when a token is available, fewer than
+// maxConcurrent are in flight and the scheduler is not paused
+export function createRequestScheduler(options: SchedulerOptions): RequestScheduler {
+  const queue: Array<() => void> = [];
+  let tokens = options.capacity;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let running = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function refill() {
+    const now = Date.now();
+    tokens = Math.min(options.capacity, tokens + ((now - lastRefill) / 1000) * options.refillPerSecond);
+    lastRefill = now;
+  }
+
+  function wakeAfter(ms: number) {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      pump();
+    }, ms);
+  }
+
+  function pump() {
+    while (queue.length > 0) {
+      const now = Date.now();
+      if (now < pausedUntil) {
+        wakeAfter(pausedUntil - now);
+        return;
+      }
+      // A finishing task calls pump again
+      if (running >= options.maxConcurrent) return;
+
+      refill();
+      if (tokens < 1) {
+        wakeAfter(((1 - tokens) / options.refillPerSecond) * 1000);
+        return;
+      }
+
+      tokens -= 1;
+      running++;
+      queue.shift()!();
+    }
+  }
+
+  return {
+    schedule<T>(task: () => Promise<T>): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        queue.push(() => {
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              running--;
+              pump();
+            });
+        });
+        pump();
+      });
+    },
+
+    pauseUntil(time: Date) {
+      pausedUntil = Math.max(pausedUntil, time.getTime());
+      pump();
+    },
+
+    pendingCount() {
+      return queue.length;
+    },
+  };
+}
@@ -1,5 +1,10 @@
 // Open-Meteo weather API
 
+import { altitudeToPressure, bracketPressureLevels } from '../utils/atmosphere';
+import { createRequestScheduler } from './requestScheduler';
+import { cacheGetMany, cachePrune, cachePutMany } from './offlineCache';
+import { getDataSource } from './dataSource';
+
 export interface WeatherData {
   latitude: number;
   longitude: number;
@@ -7,8 +12,11 @@ export interface WeatherData {
   windSpeed: number;
   windDirection: number;
   humidity: number;
-  pressure: number;
-  timestamp?: number;
+  pressure: number; // hPa at the balloon's altitude (standard atmosphere)
+  levels: number[]; // Open-Meteo pressure levels (hPa) the values came from
+  geopotentialHeight: number; // m
+  timestamp?: number; // valid time of the values (ms, start of the UTC hour)
+  cachedAt?: number; // ms; set when served from the offline cache
 }
 
 export interface RateLimitInfo {
@@ -17,72 +25,138 @@ export interface RateLimitInfo {
   resetTime?: Date;
 }
 
-// Simple in-memory cache (5 minute TTL)
+// In-memory cache (5 minute TTL) in front of the persistent offline cache.
+// Offline entries older than the TTL are shown immediately and revalidated.
 const weatherCache = new Map<string, { data: WeatherData; expires: number }>();
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const OFFLINE_CACHE_MAX_AGE = 48 * 60 * 60 * 1000; // 2 days
 
 // Track rate limit state
 let rateLimitInfo: RateLimitInfo = { isRateLimited: false };
 
-// Get weather for location (with caching)
-export async function fetchWeatherData(
-  latitude: number,
-  longitude: number
-): Promise<WeatherData | null> {
-  const cacheKey = `${latitude.toFixed(2)},${longitude.toFixed(2)}`;
+// Variables requested for each pressure level
+const LEVEL_VARIABLES = ['temperature', 'relative_humidity', 'wind_speed', 'wind_direction', 'geopotential_height'];
+
+interface LevelValues {
+  temperature: number;
+  humidity: number;
+  windSpeed: number;
+  windDirection: number;
+  geopotentialHeight: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Start of the UTC hour containing time
+function floorToHour(time: Date): number {
+  return Math.floor(time.getTime() / HOUR_MS) * HOUR_MS;
+}
+
+// Open-Meteo hour format (GMT): "2024-01-31T13:00"
+function toHourParam(hourMs: number): string {
+  return new Date(hourMs).toISOString().slice(0, 13) + ':00';
+}
+
+// Key for a position: rounded lat/lon, the pressure level it sits at and the UTC hour
+export function weatherKey(latitude: number, longitude: number, altitude: number, time: Date): string {
+  return `${latitude.toFixed(2)},${longitude.toFixed(2)},${Math.round(altitudeToPressure(altitude))},${floorToHour(time)}`;
+}
+
+function readLevel(values: Record<string, number | null>, level: number): LevelValues {
+  return {
+    temperature: values[`temperature_${level}hPa`] ?? 0,
+    humidity: values[`relative_humidity_${level}hPa`] ?? 0,
+    windSpeed: values[`wind_speed_${level}hPa`] ?? 0,
+    windDirection: values[`wind_direction_${level}hPa`] ?? 0,
+    geopotentialHeight: values[`geopotential_height_${level}hPa`] ?? 0,
+  };
+}
+
+// Interpolate between two levels; wind direction goes through u/v components
+// so 350° and 10° average to 0° rather than 180°
+function interpolateLevels(lower: LevelValues, upper: LevelValues, weight: number): LevelValues {
+  const lerp = (a: number, b: number) => a + (b - a) * weight;
+  const toRad = Math.PI / 180;
+  const u = lerp(
+    -lower.windSpeed * Math.sin(lower.windDirection * toRad),
+    -upper.windSpeed * Math.sin(upper.windDirection * toRad)
+  );
+  const v = lerp(
+    -lower.windSpeed * Math.cos(lower.windDirection * toRad),
+    -upper.windSpeed * Math.cos(upper.windDirection * toRad)
+  );
+
+  return {
+    temperature: lerp(lower.temperature, upper.temperature),
+    humidity: lerp(lower.humidity, upper.humidity),
+    windSpeed: lerp(lower.windSpeed, upper.windSpeed),
+    windDirection: (Math.atan2(-u, -v) / toRad + 360) % 360,
+    geopotentialHeight: lerp(lower.geopotentialHeight, upper.geopotentialHeight),
+  };
+}
+
+// Locations per multi-coordinate Open-Meteo request
+const MAX_LOCATIONS_PER_REQUEST = 100;
+const REQUEST_TIMEOUT = 10000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+// All Open-Meteo traffic goes through one scheduler so bursts stay polite
+const scheduler = createRequestScheduler({ capacity: 4, refillPerSecond: 2, maxConcurrent: 4 });
+
+interface WeatherRequestLocation {
+  key: string;
+  latitude: number;
+  longitude: number;
+  pressure: number;
+  weight: number;
+}
+
+type WeatherResponse =
+  | { status: 'ok'; data: unknown }
+  | { status: 'rate-limited' }
+  | { status: 'failed' };
+
+// Record a 429 and pause the scheduler until the limit resets
+function handleRateLimit(response: Response) {
+  const retryAfter = response.headers.get('Retry-After');
+  const rateLimitReset = response.headers.get('X-RateLimit-Reset');
   
-  // Check cache
-  const cached = weatherCache.get(cacheKey);
-  if (cached && cached.expires > Date.now()) {
-    return cached.data;
+  // Retry-After is either delay-seconds or an HTTP date
+  let resetMs = NaN;
+  if (retryAfter) {
+    resetMs = /^\s*\d+\s*$/.test(retryAfter) ? Date.now() + parseInt(retryAfter, 10) * 1000 : Date.parse(retryAfter);
+  } else if (rateLimitReset) {
+    // X-RateLimit-Reset is typically a Unix timestamp
+    resetMs = parseInt(rateLimitReset, 10) * 1000;
   }
+  // Default 60 seconds when the headers are missing or unparseable
+  if (Number.isNaN(resetMs)) resetMs = Date.now() + 60 * 1000;
+  
+  const resetTime = new Date(resetMs);
+  const retrySeconds = Math.max(0, Math.ceil((resetMs - Date.now()) / 1000));
+  
+  rateLimitInfo = {
+    isRateLimited: true,
+    retryAfter: retrySeconds,
+    resetTime,
+  };
+  scheduler.pauseUntil(resetTime);
+  
+  console.warn('Rate limit exceeded for Open-Meteo API. Retry after:', retrySeconds, 'seconds');
+}
+
+// One request through the active data source (live: Netlify proxy first,
+// direct API as fallback)
+async function requestWeather(params: URLSearchParams): Promise<WeatherResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
   
   try {
-    // Try Netlify proxy first, fallback to direct API
-    const proxyUrl = `/.netlify/functions/weather?latitude=${latitude}&longitude=${longitude}`;
-    const directUrl = `https://api.open-meteo.com/v1/forecast?latitude=${latitude}&longitude=${longitude}&current=temperature_2m,relative_humidity_2m,wind_speed_10m,wind_direction_10m,surface_pressure&timezone=auto`;
-    
-    let url = proxyUrl;
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 3000);
-    
-    let response = await fetch(url, { signal: controller.signal });
-    
-    // If proxy fails, try direct API
-    if (!response.ok && response.status !== 429) {
-      url = directUrl;
-      response = await fetch(url, { signal: controller.signal });
-    }
-    
-    clearTimeout(timeoutId);
+    const response = await getDataSource().fetchWeather(params, controller.signal);
     
     if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      const rateLimitReset = response.headers.get('X-RateLimit-Reset');
-      
-      let retrySeconds = 60; // Default 60 seconds
-      let resetTime: Date;
-      
-      if (retryAfter) {
-        retrySeconds = parseInt(retryAfter, 10);
-        resetTime = new Date(Date.now() + retrySeconds * 1000);
-      } else if (rateLimitReset) {
-        // X-RateLimit-Reset is typically a Unix timestamp
-        const resetTimestamp = parseInt(rateLimitReset, 10);
-        resetTime = new Date(resetTimestamp * 1000);
-        retrySeconds = Math.ceil((resetTime.getTime() - Date.now()) / 1000);
-      } else {
-        resetTime = new Date(Date.now() + retrySeconds * 1000);
-      }
-      
-      rateLimitInfo = {
-        isRateLimited: true,
-        retryAfter: retrySeconds,
-        resetTime,
-      };
-      
-      console.warn('Rate limit exceeded for Open-Meteo API. Retry after:', retrySeconds, 'seconds');
-      return null;
+      handleRateLimit(response);
+      return { status: 'rate-limited' };
     }
     
     // Reset rate limit if request succeeds
@@ -90,94 +164,170 @@ export async function fetchWeatherData(
       rateLimitInfo = { isRateLimited: false };
     }
     
-    if (!response.ok) return null;
+    if (!response.ok) return { status: 'failed' };
+    return { status: 'ok', data: await response.json() };
+  } catch (error) {
+    if (error instanceof Error && error.name !== 'AbortError') {
+      console.warn('Weather fetch failed:', error.message);
+    }
+    return { status: 'failed' };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Fetch one multi-coordinate request for locations sharing the same pressure levels
+async function fetchLocationGroup(
+  locations: WeatherRequestLocation[],
+  lower: number,
+  upper: number,
+  hourMs: number
+): Promise<Map<string, WeatherData>> {
+  const levels = lower === upper ? [lower] : [lower, upper];
+  const params = new URLSearchParams({
+    latitude: locations.map((l) => l.latitude.toFixed(2)).join(','),
+    longitude: locations.map((l) => l.longitude.toFixed(2)).join(','),
+    hourly: levels.flatMap((level) => LEVEL_VARIABLES.map((v) => `${v}_${level}hPa`)).join(','),
+    start_hour: toHourParam(hourMs),
+    end_hour: toHourParam(hourMs),
+    timezone: 'GMT',
+    timeformat: 'unixtime',
+  });
+  
+  let result: WeatherResponse = { status: 'failed' };
+  for (let attempt = 0; attempt <= MAX_RATE_LIMIT_RETRIES; attempt++) {
+    // The scheduler holds retries until the rate limit resets
+    result = await scheduler.schedule(() => requestWeather(params));
+    if (result.status !== 'rate-limited') break;
+  }
+  
+  const batch = new Map<string, WeatherData>();
+  if (result.status !== 'ok') return batch;
+  
+  // A single location comes back as an object, several as an array in request order
+  const entries = Array.isArray(result.data) ? result.data : [result.data];
+  entries.forEach((entry, i) => {
+    const location = locations[i];
+    const hourly = entry?.hourly;
+    if (!location || !hourly?.time) return;
     
-    const data = await response.json();
-    const current = data.current;
-    if (!current) return null;
+    // Pick the row for the requested hour (times are unix seconds)
+    const row = (hourly.time as number[]).indexOf(hourMs / 1000);
+    if (row === -1) return;
+    const hourValues = Object.fromEntries(
+      Object.entries(hourly as Record<string, Array<number | null>>).map(([name, series]) => [name, series[row]])
+    );
     
+    const values = interpolateLevels(readLevel(hourValues, lower), readLevel(hourValues, upper), location.weight);
     const weather: WeatherData = {
-      latitude,
-      longitude,
-      temperature: current.temperature_2m || 0,
-      windSpeed: current.wind_speed_10m || 0,
-      windDirection: current.wind_direction_10m || 0,
-      humidity: current.relative_humidity_2m || 0,
-      pressure: current.surface_pressure || 0,
-      timestamp: Date.now(),
+      latitude: location.latitude,
+      longitude: location.longitude,
+      ...values,
+      pressure: location.pressure,
+      levels,
+      timestamp: hourMs,
     };
     
     // Cache the result
-    weatherCache.set(cacheKey, {
+    weatherCache.set(location.key, {
       data: weather,
       expires: Date.now() + CACHE_TTL,
     });
-    
-    return weather;
-  } catch (error) {
-    if (error instanceof Error && error.name !== 'AbortError') {
-      console.warn(`Weather fetch failed for ${latitude}, ${longitude}:`, error.message);
-    }
-    return null;
-  }
+    batch.set(location.key, weather);
+  });
+  
+  await cachePutMany(
+    'weather',
+    Array.from(batch.entries()).map(([key, value]) => ({ key, value }))
+  );
+  return batch;
+}
+
+// Get weather at a balloon's altitude for the hour it was observed (with caching)
+export async function fetchWeatherData(
+  latitude: number,
+  longitude: number,
+  altitude: number,
+  time: Date
+): Promise<WeatherData | null> {
+  const weather = await fetchWeatherForPositions([{ latitude, longitude, altitude }], time);
+  return weather.get(weatherKey(latitude, longitude, altitude, time)) ?? null;
 }
 
-// Fetch weather for multiple positions
+// Fetch weather for multiple positions, grouped into multi-coordinate requests.
+// onBatchComplete fires once for cached hits, then once per request in order.
 export async function fetchWeatherForPositions(
-  positions: Array<{ latitude: number; longitude: number }>,
-  maxConcurrent: number = 20,
+  positions: Array<{ latitude: number; longitude: number; altitude: number }>,
+  time: Date,
   onBatchComplete?: (batchData: Map<string, WeatherData>) => void
 ): Promise<Map<string, WeatherData>> {
   const weatherMap = new Map<string, WeatherData>();
+  const hourMs = floorToHour(time);
   
-  // Deduplicate positions (same lat/lon rounded to 2 decimals)
-  const uniquePositions = new Map<string, { latitude: number; longitude: number }>();
+  // Deduplicate positions (same lat/lon rounded to 2 decimals, same pressure level)
+  // and serve what we can from the in-memory cache
+  const cachedBatch = new Map<string, WeatherData>();
+  const pending = new Map<string, { latitude: number; longitude: number; altitude: number }>();
   positions.forEach((pos) => {
-    const key = `${pos.latitude.toFixed(2)},${pos.longitude.toFixed(2)}`;
-    if (!uniquePositions.has(key)) {
-      uniquePositions.set(key, pos);
+    const key = weatherKey(pos.latitude, pos.longitude, pos.altitude, time);
+    if (cachedBatch.has(key) || pending.has(key)) return;
+    
+    const cached = weatherCache.get(key);
+    if (cached && cached.expires > Date.now()) {
+      cachedBatch.set(key, cached.data);
+    } else {
+      pending.set(key, pos);
     }
   });
   
-  const deduplicated = Array.from(uniquePositions.values());
-  
-  // Process batches sequentially so colors update incrementally
-  for (let i = 0; i < deduplicated.length; i += maxConcurrent) {
-    const batch = deduplicated.slice(i, i + maxConcurrent);
-    
-    const results = await Promise.allSettled(
-      batch.map(async (pos) => {
-        const key = `${pos.latitude.toFixed(2)},${pos.longitude.toFixed(2)}`;
-        const weather = await fetchWeatherData(pos.latitude, pos.longitude);
-        return weather ? { key, weather } : null;
-      })
-    );
-    
-    const batchMap = new Map<string, WeatherData>();
-    results.forEach((result) => {
-      if (result.status === 'fulfilled' && result.value) {
-        weatherMap.set(result.value.key, result.value.weather);
-        batchMap.set(result.value.key, result.value.weather);
-      }
-    });
-    
-    // Call callback immediately as each batch completes
-    if (onBatchComplete) {
-      onBatchComplete(batchMap);
+  // Then the offline cache: fresh entries skip the network, stale ones are
+  // shown now and still requested below
+  const persisted = await cacheGetMany<WeatherData>('weather', Array.from(pending.keys()));
+  persisted.forEach((entry, key) => {
+    const data = { ...entry.value, cachedAt: entry.storedAt };
+    cachedBatch.set(String(key), data);
+    if (entry.storedAt + CACHE_TTL > Date.now()) {
+      weatherCache.set(String(key), { data, expires: entry.storedAt + CACHE_TTL });
+      pending.delete(String(key));
     }
+  });
+  void cachePrune('weather', Date.now() - OFFLINE_CACHE_MAX_AGE);
+  
+  // Group the rest by bracketing pressure levels
+  const groups = new Map<string, { lower: number; upper: number; locations: WeatherRequestLocation[] }>();
+  pending.forEach((pos, key) => {
+    const pressure = altitudeToPressure(pos.altitude);
+    const { lower, upper, weight } = bracketPressureLevels(pressure);
+    const groupKey = `${lower}-${upper}`;
+    const group = groups.get(groupKey) ?? { lower, upper, locations: [] };
+    group.locations.push({ key, latitude: pos.latitude, longitude: pos.longitude, pressure, weight });
+    groups.set(groupKey, group);
+  });
+  
+  if (cachedBatch.size > 0) {
+    cachedBatch.forEach((value, key) => weatherMap.set(key, value));
+    onBatchComplete?.(cachedBatch);
   }
   
-  // Map results back to all original positions (including duplicates)
-  const finalMap = new Map<string, WeatherData>();
-  positions.forEach((pos) => {
-    const key = `${pos.latitude.toFixed(2)},${pos.longitude.toFixed(2)}`;
-    const weather = weatherMap.get(key);
-    if (weather) {
-      finalMap.set(key, weather);
+  // Queue every request up front; the scheduler paces them
+  const requests: Array<Promise<Map<string, WeatherData>>> = [];
+  groups.forEach(({ lower, upper, locations }) => {
+    for (let i = 0; i < locations.length; i += MAX_LOCATIONS_PER_REQUEST) {
+      const chunk = locations.slice(i, i + MAX_LOCATIONS_PER_REQUEST);
+      requests.push(fetchLocationGroup(chunk, lower, upper, hourMs));
     }
   });
   
-  return finalMap;
+  // Deliver batches in request order so colours fill in predictably
+  for (const request of requests) {
+    const batchMap = await request;
+    batchMap.forEach((value, key) => weatherMap.set(key, value));
+    if (onBatchComplete) {
+      onBatchComplete(batchMap);
+    }
+  }
+  
+  return weatherMap;
 }
 
 // Get current rate limit status
@@ -190,3 +340,90 @@ export function getRateLimitInfo(): RateLimitInfo {
   }
   return { ...rateLimitInfo };
 }
+
+// Winds aloft for trajectory prediction: hourly u/v (km/h towards east and
+// north) at single pressure levels on a coarse grid, cached in memory
+export interface WindVector {
+  u: number;
+  v: number;
+}
+
+export const WIND_GRID_DEG = 1;
+const windCache = new Map<string, WindVector>();
+
+function windKey(cell: { latitude: number; longitude: number }, level: number, hourMs: number): string {
+  return `${cell.latitude},${cell.longitude},${level},${hourMs}`;
+}
+
+// Grid cell (centre) that a position's winds are taken from
+export function windCell(latitude: number, longitude: number): { latitude: number; longitude: number } {
+  const snap = (value: number) => Math.round(value / WIND_GRID_DEG) * WIND_GRID_DEG;
+  const lon = snap(longitude);
+  return { latitude: Math.max(-90, Math.min(90, snap(latitude))), longitude: lon >= 180 ? lon - 360 : lon };
+}
+
+export function getCachedWind(cell: { latitude: number; longitude: number }, level: number, hourMs: number): WindVector | null {
+  return windCache.get(windKey(cell, level, hourMs)) ?? null;
+}
+
+// Fetch hourly winds for grid cells at one pressure level across a time range.
+// Cells already cached at both ends of the range are skipped.
+export async function fetchWindSeries(
+  cells: Array<{ latitude: number; longitude: number }>,
+  level: number,
+  start: Date,
+  end: Date
+): Promise<void> {
+  const startMs = floorToHour(start);
+  const endMs = floorToHour(end);
+  const missing = cells.filter(
+    (cell, i) =>
+      cells.findIndex((c) => c.latitude === cell.latitude && c.longitude === cell.longitude) === i &&
+      !(getCachedWind(cell, level, startMs) && getCachedWind(cell, level, endMs))
+  );
+
+  const requests: Array<Promise<void>> = [];
+  for (let i = 0; i < missing.length; i += MAX_LOCATIONS_PER_REQUEST) {
+    const chunk = missing.slice(i, i + MAX_LOCATIONS_PER_REQUEST);
+    const params = new URLSearchParams({
+      latitude: chunk.map((c) => c.latitude.toFixed(2)).join(','),
+      longitude: chunk.map((c) => c.longitude.toFixed(2)).join(','),
+      hourly: `wind_speed_${level}hPa,wind_direction_${level}hPa`,
+      start_hour: toHourParam(startMs),
+      end_hour: toHourParam(endMs),
+      timezone: 'GMT',
+      timeformat: 'unixtime',
+    });
+
+    requests.push(
+      (async () => {
+        let result: WeatherResponse = { status: 'failed' };
+        for (let attempt = 0; attempt <= MAX_RATE_LIMIT_RETRIES; attempt++) {
+          result = await scheduler.schedule(() => requestWeather(params));
+          if (result.status !== 'rate-limited') break;
+        }
+        if (result.status !== 'ok') return;
+
+        const entries = Array.isArray(result.data) ? result.data : [result.data];
+        entries.forEach((entry, j) => {
+          const hourly = entry?.hourly;
+          if (!chunk[j] || !hourly?.time) return;
+          const speeds = hourly[`wind_speed_${level}hPa`] as Array<number | null>;
+          const directions = hourly[`wind_direction_${level}hPa`] as Array<number | null>;
+          (hourly.time as number[]).forEach((seconds, row) => {
+            const speed = speeds?.[row];
+            const direction = directions?.[row];
+            if (speed == null || direction == null) return;
+            // Direction is where the wind blows from
+            const rad = (direction * Math.PI) / 180;
+            windCache.set(windKey(chunk[j], level, seconds * 1000), {
+              u: -speed * Math.sin(rad),
+              v: -speed * Math.cos(rad),
+            });
+          });
+        });
+      })()
+    );
+  }
+  await Promise.all(requests);
+}
@@ -0,0 +1,95 @@
+// Aggregations behind the analytics dashboard
+
+import type { BalloonPosition, ConstellationData } from '../services/constellationApi';
+import type { WeatherData } from '../services/weatherApi';
+import type { WeatherField } from './filters';
+
+export interface HourCount {
+  hour: number;
+  label: string; // UTC hour, e.g. "13:00"
+  count: number | null; // null when the filters can't be applied to that hour
+  total: number;
+}
+
+// Group of balloons in the selected hour that a chart element stands for
+export interface Bin {
+  label: string;
+  min: number;
+  max: number;
+  indices: number[];
+}
+
+export interface ScatterPoint {
+  index: number;
+  altitude: number; // km
+  value: number;
+}
+
+// Balloon count per snapshot, oldest first, counting only positions that
+// pass include; hours where include can't be judged (known) count as null
+export function countsByHour(
+  history: ConstellationData[],
+  include: (data: ConstellationData, index: number) => boolean = () => true,
+  known: (data: ConstellationData) => boolean = () => true
+): HourCount[] {
+  return [...history]
+    .sort((a, b) => b.hour - a.hour)
+    .map((d) => ({
+      hour: d.hour,
+      label: `${d.timestamp.toISOString().slice(11, 13)}:00`,
+      count: known(d) ? d.positions.reduce((count, _, index) => (include(d, index) ? count + 1 : count), 0) : null,
+      total: d.positions.length,
+    }));
+}
+
+// Equal-width bins from start to end; values outside go to the edge bins
+function binBy(
+  positions: BalloonPosition[],
+  indices: number[],
+  value: (p: BalloonPosition) => number,
+  start: number,
+  end: number,
+  width: number,
+  label: (min: number, max: number) => string
+): Bin[] {
+  const count = Math.max(1, Math.ceil((end - start) / width));
+  const bins: Bin[] = Array.from({ length: count }, (_, i) => ({
+    label: label(start + i * width, start + (i + 1) * width),
+    min: start + i * width,
+    max: start + (i + 1) * width,
+    indices: [],
+  }));
+  indices.forEach((index) => {
+    const i = Math.floor((value(positions[index]) - start) / width);
+    bins[Math.min(count - 1, Math.max(0, i))].indices.push(index);
+  });
+  return bins;
+}
+
+// 1 km altitude bins up to the highest balloon
+export function altitudeHistogram(positions: BalloonPosition[], indices: number[]): Bin[] {
+  const top = Math.max(1000, ...indices.map((i) => positions[i].altitude));
+  return binBy(positions, indices, (p) => p.altitude, 0, Math.ceil(top / 1000) * 1000, 1000, (min) => `${min / 1000}`);
+}
+
+export function formatLatitude(lat: number): string {
+  return lat === 0 ? '0°' : `${Math.abs(lat)}°${lat < 0 ? 'S' : 'N'}`;
+}
+
+// 15° latitude bands, south to north
+export function latitudeBands(positions: BalloonPosition[], indices: number[]): Bin[] {
+  return binBy(positions, indices, (p) => p.latitude, -90, 90, 15, formatLatitude);
+}
+
+// Weather variable against altitude for balloons with weather loaded
+export function weatherScatter(
+  positions: BalloonPosition[],
+  indices: number[],
+  field: WeatherField,
+  getWeather: (position: BalloonPosition) => WeatherData | null
+): ScatterPoint[] {
+  return indices.flatMap((index) => {
+    const weather = getWeather(positions[index]);
+    return weather ? [{ index, altitude: positions[index].altitude / 1000, value: weather[field] }] : [];
+  });
+}
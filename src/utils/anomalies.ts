@@ -0,0 +1,149 @@
+// Flags physically implausible positions in the hourly history
+
+import type { ConstellationData } from '../services/constellationApi';
+import { haversineDistance } from './geo';
+import type { TrackKinematics } from './kinematics';
+import type { TrackSet } from './tracks';
+
+export type AnomalyKind = 'speed' | 'vertical' | 'duplicate' | 'null-island';
+export type AnomalySeverity = 'warning' | 'critical';
+
+export interface AnomalyFlag {
+  kind: AnomalyKind;
+  severity: AnomalySeverity;
+  reason: string;
+}
+
+export interface AnomalyReport {
+  flags: Map<string, AnomalyFlag[]>; // "hour:index" -> flags
+  flaggedByHour: Map<number, number>; // hour -> flagged positions
+}
+
+// Horizontal speed (km/h) and hourly-mean vertical rate (m/s) limits. Jet
+// streams rarely exceed ~400 km/h and balloons don't sustain large climbs.
+const SPEED_LIMITS = { warning: 300, critical: 500 };
+const VERTICAL_LIMITS = { warning: 3, critical: 8 };
+
+// Snapshots whose median same-index speed is below this look index-stable,
+// so same-index jumps are real moves rather than reordering
+const STABLE_ORDER_MEDIAN_KMH = 200;
+
+function flagKey(hour: number, index: number): string {
+  return `${hour}:${index}`;
+}
+
+function severityFor(value: number, limits: { warning: number; critical: number }): AnomalySeverity | null {
+  if (value > limits.critical) return 'critical';
+  if (value > limits.warning) return 'warning';
+  return null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+export function detectAnomalies(
+  history: ConstellationData[],
+  trackSet: TrackSet,
+  kinematics: Map<string, TrackKinematics>
+): AnomalyReport {
+  const flags = new Map<string, AnomalyFlag[]>();
+  const add = (hour: number, index: number, flag: AnomalyFlag) => {
+    const key = flagKey(hour, index);
+    const existing = flags.get(key) ?? [];
+    // One flag per kind, keeping the most severe
+    const same = existing.findIndex((f) => f.kind === flag.kind);
+    if (same === -1) existing.push(flag);
+    else if (existing[same].severity === 'warning' && flag.severity === 'critical') existing[same] = flag;
+    flags.set(key, existing);
+  };
+
+  const motion = (hour: number, index: number, hours: number, distanceKm: number, altitudeChange: number) => {
+    const speed = distanceKm / hours;
+    const speedSeverity = severityFor(speed, SPEED_LIMITS);
+    if (speedSeverity) {
+      add(hour, index, {
+        kind: 'speed',
+        severity: speedSeverity,
+        reason: `Moved ${Math.round(distanceKm)} km in ${hours}h (${Math.round(speed)} km/h)`,
+      });
+    }
+    const rate = Math.abs(altitudeChange) / (hours * 3600);
+    const verticalSeverity = severityFor(rate, VERTICAL_LIMITS);
+    if (verticalSeverity) {
+      add(hour, index, {
+        kind: 'vertical',
+        severity: verticalSeverity,
+        reason: `Altitude changed ${Math.round(altitudeChange)} m in ${hours}h (${rate.toFixed(1)} m/s)`,
+      });
+    }
+  };
+
+  const byHour = new Map(history.map((d) => [d.hour, d]));
+  history.forEach((data) => {
+    // Exactly 0,0 is almost always a missing fix
+    const seen = new Map<string, number>();
+    data.positions.forEach((p, index) => {
+      if (p.latitude === 0 && p.longitude === 0) {
+        add(data.hour, index, { kind: 'null-island', severity: 'critical', reason: 'Exactly at 0°, 0° (likely a missing fix)' });
+      }
+
+      const key = `${p.latitude},${p.longitude},${p.altitude}`;
+      const first = seen.get(key);
+      if (first === undefined) {
+        seen.set(key, index);
+      } else {
+        add(data.hour, index, { kind: 'duplicate', severity: 'warning', reason: `Same coordinates as #${first + 1}` });
+        add(data.hour, first, { kind: 'duplicate', severity: 'warning', reason: `Same coordinates as #${index + 1}` });
+      }
+    });
+
+    // Teleports never get linked into a track, so also compare by index
+    // when this hour and the previous one keep balloons in the same order
+    const previous = byHour.get(data.hour + 1);
+    if (!previous || previous.positions.length !== data.positions.length || data.positions.length === 0) return;
+    const distances = data.positions.map((p, index) => haversineDistance(previous.positions[index], p));
+    if (median(distances) >= STABLE_ORDER_MEDIAN_KMH) return;
+    distances.forEach((distance, index) => {
+      motion(data.hour, index, 1, distance, data.positions[index].altitude - previous.positions[index].altitude);
+    });
+  });
+
+  trackSet.tracks.forEach((track) => {
+    const steps = kinematics.get(track.id)?.steps ?? [];
+    steps.forEach((step, i) => {
+      const point = track.points[i + 1];
+      motion(point.hour, point.index, step.hours, step.distanceKm, step.altitudeChange);
+
+      const before = track.points[i];
+      if (before.latitude === point.latitude && before.longitude === point.longitude) {
+        add(point.hour, point.index, {
+          kind: 'duplicate',
+          severity: 'warning',
+          reason: `Identical position to ${step.hours}h earlier (stale fix)`,
+        });
+      }
+    });
+  });
+
+  const flaggedByHour = new Map<number, number>();
+  flags.forEach((_, key) => {
+    const hour = Number(key.split(':')[0]);
+    flaggedByHour.set(hour, (flaggedByHour.get(hour) ?? 0) + 1);
+  });
+
+  return { flags, flaggedByHour };
+}
+
+// Shared so unflagged markers keep a stable prop
+const NO_FLAGS: AnomalyFlag[] = [];
+
+export function getAnomalies(report: AnomalyReport, hour: number, index: number): AnomalyFlag[] {
+  return report.flags.get(flagKey(hour, index)) ?? NO_FLAGS;
+}
+
+export function worstSeverity(flags: AnomalyFlag[]): AnomalySeverity | null {
+  if (flags.length === 0) return null;
+  return flags.some((f) => f.severity === 'critical') ? 'critical' : 'warning';
+}
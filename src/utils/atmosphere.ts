@@ -0,0 +1,52 @@
+// International Standard Atmosphere (ISA) helpers
+
+const G0 = 9.80665; // m/s²
+const R_AIR = 287.05287; // J/(kg·K)
+
+// ISA layers up to 47 km: base altitude (m), base temperature (K),
+// base pressure (hPa) and lapse rate (K/m)
+const LAYERS = [
+  { base: 0, temperature: 288.15, pressure: 1013.25, lapse: -0.0065 },
+  { base: 11000, temperature: 216.65, pressure: 226.321, lapse: 0 },
+  { base: 20000, temperature: 216.65, pressure: 54.7489, lapse: 0.001 },
+  { base: 32000, temperature: 228.65, pressure: 8.68019, lapse: 0.0028 },
+  { base: 47000, temperature: 270.65, pressure: 1.10906, lapse: 0 },
+];
+
+// Pressure levels Open-Meteo serves, highest pressure (lowest altitude) first
+export const PRESSURE_LEVELS = [
+  1000, 975, 950, 925, 900, 850, 800, 700, 600, 500, 400, 300, 250, 200, 150, 100, 70, 50, 30,
+];
+
+// Standard-atmosphere pressure (hPa) at a geometric altitude (m)
+export function altitudeToPressure(altitude: number): number {
+  const h = Math.max(-500, altitude);
+  let layer = LAYERS[0];
+  for (const l of LAYERS) {
+    if (h >= l.base) layer = l;
+  }
+
+  const dh = h - layer.base;
+  if (layer.lapse === 0) {
+    return layer.pressure * Math.exp((-G0 * dh) / (R_AIR * layer.temperature));
+  }
+  const t = layer.temperature + layer.lapse * dh;
+  return layer.pressure * Math.pow(t / layer.temperature, -G0 / (R_AIR * layer.lapse));
+}
+
+// The two Open-Meteo levels bracketing a pressure, plus the interpolation
+// weight of the upper (lower-pressure) level in log-pressure space.
+// Pressures outside the served range clamp to the nearest level.
+export function bracketPressureLevels(pressure: number): { lower: number; upper: number; weight: number } {
+  const first = PRESSURE_LEVELS[0];
+  const last = PRESSURE_LEVELS[PRESSURE_LEVELS.length - 1];
+  if (pressure >= first) return { lower: first, upper: first, weight: 0 };
+  if (pressure <= last) return { lower: last, upper: last, weight: 0 };
+
+  let i = 0;
+  while (PRESSURE_LEVELS[i + 1] > pressure) i++;
+  const lower = PRESSURE_LEVELS[i];
+  const upper = PRESSURE_LEVELS[i + 1];
+  const weight = Math.log(lower / pressure) / Math.log(lower / upper);
+  return { lower, upper, weight };
+}
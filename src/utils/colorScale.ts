@@ -0,0 +1,172 @@
+// Continuous colour scales for colouring markers by a metric
+
+import type { BalloonPosition } from '../services/constellationApi';
+import type { WeatherData } from '../services/weatherApi';
+import { altitudeToPressure } from './atmosphere';
+
+export type ColorMetric = 'temperature' | 'altitude' | 'windSpeed' | 'humidity' | 'pressure' | 'groundSpeed';
+export type ColorScheme = 'viridis' | 'magma' | 'coolwarm' | 'spectral';
+export type DomainMode = 'fixed' | 'data';
+
+export interface ColorScaleOptions {
+  metric: ColorMetric;
+  scheme: ColorScheme;
+  domain: DomainMode;
+}
+
+interface MetricInfo {
+  label: string;
+  unit: string;
+  fixedDomain: [number, number];
+  center?: number; // midpoint for diverging schemes (defaults to mid-domain)
+  needsWeather: boolean;
+  format: (value: number) => string;
+}
+
+export const METRICS: Record<ColorMetric, MetricInfo> = {
+  temperature: {
+    label: 'Temperature',
+    unit: '°C',
+    fixedDomain: [-70, 30],
+    center: 0,
+    needsWeather: true,
+    format: (v) => `${Math.round(v)}°C`,
+  },
+  altitude: {
+    label: 'Altitude',
+    unit: 'km',
+    fixedDomain: [0, 20000],
+    needsWeather: false,
+    format: (v) => `${(v / 1000).toFixed(1)} km`,
+  },
+  windSpeed: {
+    label: 'Wind speed',
+    unit: 'km/h',
+    fixedDomain: [0, 200],
+    needsWeather: true,
+    format: (v) => `${Math.round(v)} km/h`,
+  },
+  humidity: {
+    label: 'Humidity',
+    unit: '%',
+    fixedDomain: [0, 100],
+    center: 50,
+    needsWeather: true,
+    format: (v) => `${Math.round(v)}%`,
+  },
+  pressure: {
+    label: 'Pressure',
+    unit: 'hPa',
+    fixedDomain: [30, 1000],
+    needsWeather: false,
+    format: (v) => `${Math.round(v)} hPa`,
+  },
+  groundSpeed: {
+    label: 'Ground speed',
+    unit: 'km/h',
+    fixedDomain: [0, 250],
+    needsWeather: false,
+    format: (v) => `${Math.round(v)} km/h`,
+  },
+};
+
+// Colour stops, low to high
+export const SCHEMES: Record<ColorScheme, { label: string; kind: 'sequential' | 'diverging'; stops: string[] }> = {
+  viridis: { label: 'Viridis', kind: 'sequential', stops: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'] },
+  magma: { label: 'Magma', kind: 'sequential', stops: ['#000004', '#3b0f70', '#8c2981', '#de4968', '#fe9f6d', '#fcfdbf'] },
+  coolwarm: { label: 'Cool-warm', kind: 'diverging', stops: ['#3b4cc0', '#8db0fe', '#dddddd', '#f49a7b', '#b40426'] },
+  spectral: { label: 'Spectral', kind: 'diverging', stops: ['#3288bd', '#99d594', '#ffffbf', '#fc8d59', '#d53e4f'] },
+};
+
+export const DEFAULT_COLOR_OPTIONS: ColorScaleOptions = { metric: 'temperature', scheme: 'coolwarm', domain: 'fixed' };
+
+export interface ColorScale {
+  options: ColorScaleOptions;
+  domain: [number, number];
+  color: (value: number) => string;
+  ticks: number[];
+  format: (value: number) => string;
+}
+
+const TICK_COUNT = 5;
+
+// Value of a metric for one balloon, or null when it isn't known (yet)
+export function metricValue(
+  metric: ColorMetric,
+  position: BalloonPosition,
+  weather: WeatherData | null,
+  groundSpeed: number | null
+): number | null {
+  switch (metric) {
+    case 'altitude':
+      return position.altitude;
+    case 'groundSpeed':
+      return groundSpeed;
+    case 'pressure':
+      // Standard atmosphere at the balloon's altitude, as used to pick weather levels
+      return altitudeToPressure(position.altitude);
+    case 'temperature':
+    case 'windSpeed':
+    case 'humidity':
+      return weather ? weather[metric] : null;
+  }
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+function rgbToHex([r, g, b]: number[]): string {
+  return `#${((1 << 24) | (Math.round(r) << 16) | (Math.round(g) << 8) | Math.round(b)).toString(16).slice(1)}`;
+}
+
+// Linear interpolation between evenly spaced stops, t in [0, 1]
+function sampleStops(stops: Array<[number, number, number]>, t: number): string {
+  const x = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(x));
+  const f = x - i;
+  return rgbToHex(stops[i].map((c, k) => c + (stops[i + 1][k] - c) * f));
+}
+
+function percentile(sorted: number[], p: number): number {
+  const x = (sorted.length - 1) * p;
+  const i = Math.floor(x);
+  return sorted[i] + (sorted[Math.min(sorted.length - 1, i + 1)] - sorted[i]) * (x - i);
+}
+
+// Data-driven domains trim the outer 2% so one outlier doesn't flatten the scale
+function dataDomain(values: number[]): [number, number] | null {
+  const finite = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (finite.length === 0) return null;
+  const [lo, hi] = finite.length >= 10
+    ? [percentile(finite, 0.02), percentile(finite, 0.98)]
+    : [finite[0], finite[finite.length - 1]];
+  return lo === hi ? [lo - 1, hi + 1] : [lo, hi];
+}
+
+// Build a scale for the given options; values only matter for data-driven domains
+export function createColorScale(options: ColorScaleOptions, values: number[]): ColorScale {
+  const metric = METRICS[options.metric];
+  const scheme = SCHEMES[options.scheme];
+  const stops = scheme.stops.map(hexToRgb);
+  const domain = (options.domain === 'data' && dataDomain(values)) || metric.fixedDomain;
+  const [min, max] = domain;
+
+  // Diverging schemes put their middle colour on the metric's centre value
+  let center = (min + max) / 2;
+  if (scheme.kind === 'diverging' && metric.center !== undefined && metric.center > min && metric.center < max) {
+    center = metric.center;
+  }
+
+  const position = (value: number) =>
+    value < center ? 0.5 * ((value - min) / (center - min)) : 0.5 + 0.5 * ((value - center) / (max - center));
+
+  return {
+    options,
+    domain,
+    color: (value) => sampleStops(stops, position(value)),
+    ticks: Array.from({ length: TICK_COUNT }, (_, i) => min + ((max - min) * i) / (TICK_COUNT - 1)),
+    format: metric.format,
+  };
+}
@@ -0,0 +1,38 @@
+// Marker and track colours
+
+import type { AnomalySeverity } from './anomalies';
+
+// Outline of flagged markers
+export const ANOMALY_COLORS: Record<AnomalySeverity, string> = {
+  warning: '#ffd60a',
+  critical: '#ff3b30',
+};
+
+// Markers whose colour metric isn't known (yet)
+export const LOADING_COLOR = '#ffa500';
+
+// Predicted tracks and their uncertainty cones
+export const PREDICTION_COLOR = '#64d2ff';
+
+// Geofence outlines and the crossings they record
+export const GEOFENCE_COLOR = '#ff9f0a';
+
+// Hour comparison overlay
+export const DIFF_COLORS = {
+  appeared: '#30d158',
+  lost: '#ff453a',
+  moved: '#f2f2f7',
+};
+
+// Altitude bands used for track segments (upper bound in metres)
+export const ALTITUDE_BANDS: Array<{ max: number; color: string; label: string }> = [
+  { max: 2000, color: '#2ecc71', label: '< 2 km' },
+  { max: 5000, color: '#f1c40f', label: '2-5 km' },
+  { max: 10000, color: '#e67e22', label: '5-10 km' },
+  { max: 15000, color: '#e74c3c', label: '10-15 km' },
+  { max: Infinity, color: '#9b59b6', label: '> 15 km' },
+];
+
+export function altitudeColor(altitude: number): string {
+  return (ALTITUDE_BANDS.find((band) => altitude < band.max) ?? ALTITUDE_BANDS[ALTITUDE_BANDS.length - 1]).color;
+}
@@ -0,0 +1,265 @@
+// GeoJSON, KML and CSV serialisers. Output is deterministic: records are
+// sorted by time then snapshot index and numbers use fixed precision.
+
+import type { ConstellationData } from '../services/constellationApi';
+import type { WeatherData } from '../services/weatherApi';
+import { getTrackId } from './tracks';
+import type { TrackSet } from './tracks';
+import { longitudeDelta } from './geo';
+
+export type ExportFormat = 'geojson' | 'kml' | 'csv';
+
+export interface ExportRecord {
+  trackId: string | null;
+  hour: number;
+  time: Date;
+  index: number;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  weather: WeatherData | null;
+}
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  csv: 'text/csv',
+};
+
+const COORD_DIGITS = 5;
+const ALT_DIGITS = 1;
+
+function round(value: number, digits: number): number {
+  return Number(value.toFixed(digits));
+}
+
+function isoTime(time: Date): string {
+  return time.toISOString().replace('.000Z', 'Z');
+}
+
+// Flatten snapshots into records, oldest first, keeping only positions
+// that pass include (e.g. the active filters)
+export function collectExportRecords(
+  snapshots: ConstellationData[],
+  trackSet: TrackSet,
+  getWeather: (data: ConstellationData, index: number) => WeatherData | null,
+  include: (data: ConstellationData, index: number) => boolean = () => true
+): ExportRecord[] {
+  return [...snapshots]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .flatMap((data) =>
+      data.positions.flatMap((p, index) => (include(data, index) ? [{
+        trackId: getTrackId(trackSet, data.hour, index) ?? null,
+        hour: data.hour,
+        time: data.timestamp,
+        index,
+        latitude: p.latitude,
+        longitude: p.longitude,
+        altitude: p.altitude,
+        weather: getWeather(data, index),
+      }] : []))
+    );
+}
+
+function weatherProperties(weather: WeatherData | null): Record<string, number | null> {
+  return {
+    temperature_c: weather ? round(weather.temperature, 1) : null,
+    wind_speed_kmh: weather ? round(weather.windSpeed, 1) : null,
+    wind_direction_deg: weather ? round(weather.windDirection, 0) : null,
+    humidity_pct: weather ? round(weather.humidity, 0) : null,
+    pressure_hpa: weather ? round(weather.pressure, 1) : null,
+    geopotential_height_m: weather ? round(weather.geopotentialHeight, 0) : null,
+  };
+}
+
+// Group records into per-track runs (only tracks seen more than once)
+function trackRuns(records: ExportRecord[]): Array<{ trackId: string; records: ExportRecord[] }> {
+  const byTrack = new Map<string, ExportRecord[]>();
+  records.forEach((r) => {
+    if (!r.trackId) return;
+    byTrack.set(r.trackId, [...(byTrack.get(r.trackId) ?? []), r]);
+  });
+  return Array.from(byTrack.entries())
+    .filter(([, run]) => run.length > 1)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([trackId, run]) => ({ trackId, records: run }));
+}
+
+// Track coordinates cut at the antimeridian (RFC 7946 §3.1.9), altitude interpolated
+function lineParts(run: ExportRecord[]): Array<Array<[number, number, number]>> {
+  const coord = (r: ExportRecord): [number, number, number] => [
+    round(r.longitude, COORD_DIGITS),
+    round(r.latitude, COORD_DIGITS),
+    round(r.altitude, ALT_DIGITS),
+  ];
+  const parts: Array<Array<[number, number, number]>> = [[coord(run[0])]];
+
+  for (let i = 1; i < run.length; i++) {
+    const a = run[i - 1];
+    const b = run[i];
+    const delta = longitudeDelta(a.longitude, b.longitude);
+    const unwrapped = a.longitude + delta;
+    if (unwrapped > 180 || unwrapped < -180) {
+      const edge = unwrapped > 180 ? 180 : -180;
+      const t = (edge - a.longitude) / delta;
+      const lat = round(a.latitude + (b.latitude - a.latitude) * t, COORD_DIGITS);
+      const alt = round(a.altitude + (b.altitude - a.altitude) * t, ALT_DIGITS);
+      parts[parts.length - 1].push([edge, lat, alt]);
+      parts.push([[-edge, lat, alt]]);
+    }
+    parts[parts.length - 1].push(coord(b));
+  }
+  return parts;
+}
+
+// FeatureCollection of points (altitude as Z) plus one line per track
+export function toGeoJSON(records: ExportRecord[]): string {
+  const points = records.map((r) => ({
+    type: 'Feature',
+    geometry: {
+      type: 'Point',
+      coordinates: [round(r.longitude, COORD_DIGITS), round(r.latitude, COORD_DIGITS), round(r.altitude, ALT_DIGITS)],
+    },
+    properties: {
+      track_id: r.trackId,
+      hours_ago: r.hour,
+      time: isoTime(r.time),
+      index: r.index,
+      altitude_m: round(r.altitude, ALT_DIGITS),
+      ...weatherProperties(r.weather),
+    },
+  }));
+
+  const tracks = trackRuns(records).map(({ trackId, records: run }) => {
+    const parts = lineParts(run);
+    return {
+      type: 'Feature',
+      geometry: parts.length === 1
+        ? { type: 'LineString', coordinates: parts[0] }
+        : { type: 'MultiLineString', coordinates: parts },
+      properties: {
+        track_id: trackId,
+        start: isoTime(run[0].time),
+        end: isoTime(run[run.length - 1].time),
+        points: run.length,
+      },
+    };
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', features: [...points, ...tracks] }, null, 2) + '\n';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// KML with time-stamped placemarks for the Google Earth time slider
+export function toKML(records: ExportRecord[]): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    '<name>WindBorne constellation</name>',
+    '<Folder>',
+    '<name>Positions</name>',
+  ];
+
+  records.forEach((r) => {
+    const name = r.trackId ?? `hour ${r.hour} #${r.index + 1}`;
+    const data = Object.entries({ hours_ago: r.hour, altitude_m: round(r.altitude, ALT_DIGITS), ...weatherProperties(r.weather) })
+      .filter(([, value]) => value !== null)
+      .map(([key, value]) => `<Data name="${key}"><value>${value}</value></Data>`)
+      .join('');
+    lines.push(
+      '<Placemark>',
+      `<name>${escapeXml(name)}</name>`,
+      `<TimeStamp><when>${isoTime(r.time)}</when></TimeStamp>`,
+      `<ExtendedData>${data}</ExtendedData>`,
+      `<Point><altitudeMode>absolute</altitudeMode><coordinates>${round(r.longitude, COORD_DIGITS)},${round(r.latitude, COORD_DIGITS)},${round(r.altitude, ALT_DIGITS)}</coordinates></Point>`,
+      '</Placemark>'
+    );
+  });
+  lines.push('</Folder>');
+
+  const runs = trackRuns(records);
+  if (runs.length > 0) {
+    lines.push('<Folder>', '<name>Tracks</name>');
+    runs.forEach(({ trackId, records: run }) => {
+      const coordinates = run
+        .map((r) => `${round(r.longitude, COORD_DIGITS)},${round(r.latitude, COORD_DIGITS)},${round(r.altitude, ALT_DIGITS)}`)
+        .join(' ');
+      lines.push(
+        '<Placemark>',
+        `<name>${escapeXml(trackId)}</name>`,
+        `<TimeSpan><begin>${isoTime(run[0].time)}</begin><end>${isoTime(run[run.length - 1].time)}</end></TimeSpan>`,
+        `<LineString><altitudeMode>absolute</altitudeMode><coordinates>${coordinates}</coordinates></LineString>`,
+        '</Placemark>'
+      );
+    });
+    lines.push('</Folder>');
+  }
+
+  lines.push('</Document>', '</kml>');
+  return lines.join('\n') + '\n';
+}
+
+const CSV_COLUMNS = [
+  'track_id',
+  'hours_ago',
+  'time',
+  'index',
+  'latitude',
+  'longitude',
+  'altitude_m',
+  'temperature_c',
+  'wind_speed_kmh',
+  'wind_direction_deg',
+  'humidity_pct',
+  'pressure_hpa',
+  'geopotential_height_m',
+];
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per position
+export function toCSV(records: ExportRecord[]): string {
+  const rows = records.map((r) => {
+    const values: Record<string, string | number | null> = {
+      track_id: r.trackId,
+      hours_ago: r.hour,
+      time: isoTime(r.time),
+      index: r.index,
+      latitude: round(r.latitude, COORD_DIGITS),
+      longitude: round(r.longitude, COORD_DIGITS),
+      altitude_m: round(r.altitude, ALT_DIGITS),
+      ...weatherProperties(r.weather),
+    };
+    return CSV_COLUMNS.map((column) => csvCell(values[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+export function serialize(format: ExportFormat, records: ExportRecord[]): string {
+  switch (format) {
+    case 'geojson':
+      return toGeoJSON(records);
+    case 'kml':
+      return toKML(records);
+    case 'csv':
+      return toCSV(records);
+  }
+}
+
+// e.g. windborne-2024-01-31T13Z-24h.geojson
+export function exportFileName(format: ExportFormat, latest: Date, hours: number): string {
+  const stamp = latest.toISOString().slice(0, 13) + 'Z';
+  return `windborne-${stamp}-${hours}h.${format}`;
+}
@@ -0,0 +1,110 @@
+// Position filters: altitude band, map region and weather thresholds
+
+import type { BalloonPosition } from '../services/constellationApi';
+import type { WeatherData } from '../services/weatherApi';
+import { pointInPolygon } from './geo';
+import type { LatLon } from './geo';
+
+export interface RegionBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number; // east < west means the box crosses the antimeridian
+}
+
+export type WeatherField = 'temperature' | 'windSpeed' | 'humidity';
+
+export type FilterCondition =
+  | { id: number; kind: 'altitude'; min: number | null; max: number | null } // metres
+  | { id: number; kind: 'rectangle'; bounds: RegionBounds }
+  | { id: number; kind: 'polygon'; points: LatLon[] }
+  | { id: number; kind: 'weather'; field: WeatherField; op: '<' | '>'; value: number };
+
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+// A condition before it has been added to a filter
+export type NewFilterCondition = WithoutId<FilterCondition>;
+
+export interface FilterState {
+  combine: 'and' | 'or';
+  conditions: FilterCondition[];
+}
+
+export const EMPTY_FILTER: FilterState = { combine: 'and', conditions: [] };
+
+export const WEATHER_FIELDS: Record<WeatherField, { label: string; unit: string }> = {
+  temperature: { label: 'Temperature', unit: '°C' },
+  windSpeed: { label: 'Wind speed', unit: 'km/h' },
+  humidity: { label: 'Humidity', unit: '%' },
+};
+
+export function isFilterActive(filter: FilterState): boolean {
+  return filter.conditions.length > 0;
+}
+
+export function addCondition(filter: FilterState, condition: NewFilterCondition): FilterState {
+  const id = filter.conditions.reduce((max, c) => Math.max(max, c.id), 0) + 1;
+  return { ...filter, conditions: [...filter.conditions, { ...condition, id } as FilterCondition] };
+}
+
+function inRectangle(p: LatLon, bounds: RegionBounds): boolean {
+  if (p.latitude < bounds.south || p.latitude > bounds.north) return false;
+  // Measure eastwards from the west edge so wrapped boxes work too. A
+  // zero-width box is just its meridian; -180..180 is the whole world.
+  const width = bounds.east === bounds.west ? 0 : (bounds.east - bounds.west + 360) % 360 || 360;
+  const offset = (p.longitude - bounds.west + 360) % 360;
+  return offset <= width;
+}
+
+// Whether the result depends on weather, which is only loaded for one hour
+export function usesWeather(filter: FilterState): boolean {
+  return filter.conditions.some((c) => c.kind === 'weather');
+}
+
+// Unknown weather never satisfies a weather condition
+function matchesCondition(position: BalloonPosition, weather: WeatherData | null, condition: FilterCondition): boolean {
+  switch (condition.kind) {
+    case 'altitude':
+      return (
+        (condition.min === null || position.altitude >= condition.min) &&
+        (condition.max === null || position.altitude <= condition.max)
+      );
+    case 'rectangle':
+      return inRectangle(position, condition.bounds);
+    case 'polygon':
+      return pointInPolygon(position, condition.points);
+    case 'weather': {
+      if (!weather) return false;
+      const value = weather[condition.field];
+      return condition.op === '<' ? value < condition.value : value > condition.value;
+    }
+  }
+}
+
+export function matchesFilter(position: BalloonPosition, weather: WeatherData | null, filter: FilterState): boolean {
+  if (filter.conditions.length === 0) return true;
+  return filter.combine === 'and'
+    ? filter.conditions.every((c) => matchesCondition(position, weather, c))
+    : filter.conditions.some((c) => matchesCondition(position, weather, c));
+}
+
+export function describeCondition(condition: FilterCondition): string {
+  switch (condition.kind) {
+    case 'altitude': {
+      const km = (m: number) => `${(m / 1000).toFixed(1)} km`;
+      if (condition.min !== null && condition.max !== null) return `Altitude ${km(condition.min)}–${km(condition.max)}`;
+      if (condition.min !== null) return `Altitude ≥ ${km(condition.min)}`;
+      return `Altitude ≤ ${km(condition.max ?? 0)}`;
+    }
+    case 'rectangle': {
+      const { south, west, north, east } = condition.bounds;
+      return `Box ${south.toFixed(1)}°..${north.toFixed(1)}° lat, ${west.toFixed(1)}°..${east.toFixed(1)}° lon`;
+    }
+    case 'polygon':
+      return `Polygon (${condition.points.length} points)`;
+    case 'weather': {
+      const field = WEATHER_FIELDS[condition.field];
+      return `${field.label} ${condition.op} ${condition.value} ${field.unit}`;
+    }
+  }
+}
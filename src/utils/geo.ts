@@ -0,0 +1,191 @@
+// Geographic helpers (spherical earth)
+
+export interface LatLon {
+  latitude: number;
+  longitude: number;
+}
+
+export const EARTH_RADIUS_KM = 6371;
+export const KM_PER_DEGREE_LAT = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+export function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+export function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+// Wrap longitude into [-180, 180)
+export function normalizeLongitude(lon: number): number {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+// Shortest signed longitude difference from -> to, in [-180, 180)
+export function longitudeDelta(fromLon: number, toLon: number): number {
+  return normalizeLongitude(toLon - fromLon);
+}
+
+// Great-circle distance in km (haversine)
+export function haversineDistance(a: LatLon, b: LatLon): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(longitudeDelta(a.longitude, b.longitude));
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Initial great-circle bearing from a to b, degrees clockwise from north in [0, 360)
+export function initialBearing(a: LatLon, b: LatLon): number {
+  const lat1 = toRadians(a.latitude);
+  const lat2 = toRadians(b.latitude);
+  const dLon = toRadians(longitudeDelta(a.longitude, b.longitude));
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+// Point reached travelling distanceKm from p along an initial bearing (degrees)
+export function destinationPoint(p: LatLon, bearing: number, distanceKm: number): LatLon {
+  const delta = distanceKm / EARTH_RADIUS_KM;
+  const theta = toRadians(bearing);
+  const lat1 = toRadians(p.latitude);
+  const lon1 = toRadians(p.longitude);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(delta) + Math.cos(lat1) * Math.sin(delta) * Math.cos(theta));
+  const lon2 =
+    lon1 + Math.atan2(Math.sin(theta) * Math.sin(delta) * Math.cos(lat1), Math.cos(delta) - Math.sin(lat1) * Math.sin(lat2));
+  return { latitude: toDegrees(lat2), longitude: normalizeLongitude(toDegrees(lon2)) };
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export function compassPoint(bearing: number): string {
+  return COMPASS_POINTS[Math.round(bearing / 45) % 8];
+}
+
+// Split a segment crossing the antimeridian into two pieces, one per side.
+// Returns [[lat, lon], ...] runs suitable for Leaflet polylines.
+export function splitAtAntimeridian(a: LatLon, b: LatLon): Array<Array<[number, number]>> {
+  const delta = longitudeDelta(a.longitude, b.longitude);
+  const unwrappedB = a.longitude + delta;
+  if (unwrappedB >= -180 && unwrappedB <= 180) {
+    return [[[a.latitude, a.longitude], [b.latitude, b.longitude]]];
+  }
+
+  const edge = unwrappedB > 180 ? 180 : -180;
+  const t = (edge - a.longitude) / delta;
+  const crossLat = a.latitude + (b.latitude - a.latitude) * t;
+  return [
+    [[a.latitude, a.longitude], [crossLat, edge]],
+    [[crossLat, -edge], [b.latitude, b.longitude]],
+  ];
+}
+
+// Leaflet coordinates for a ring, unwrapped so it doesn't smear across the map at ±180°
+export function unwrapRing(points: LatLon[]): Array<[number, number]> {
+  let lon = points[0]?.longitude ?? 0;
+  return points.map((p, i) => {
+    if (i > 0) lon += longitudeDelta(points[i - 1].longitude, p.longitude);
+    return [p.latitude, lon];
+  });
+}
+
+function rayCast(lat: number, lon: number, ring: Array<[number, number]>): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [yi, xi] = ring[i];
+    const [yj, xj] = ring[j];
+    if (yi > lat !== yj > lat && lon < xi + ((lat - yi) / (yj - yi)) * (xj - xi)) inside = !inside;
+  }
+  return inside;
+}
+
+// Ray casting against the ring unwrapped edge by edge, so polygons drawn
+// across the antimeridian behave; the point is tried at each world copy the
+// unwrapped ring may reach
+export function pointInPolygon(p: LatLon, points: LatLon[]): boolean {
+  if (points.length < 3) return false;
+  const ring = unwrapRing(points);
+  return [0, 360, -360].some((shift) => rayCast(p.latitude, p.longitude + shift, ring));
+}
+
+// Unit vector on the sphere for a lat/lon
+export function toVector(p: LatLon): [number, number, number] {
+  const lat = toRadians(p.latitude);
+  const lon = toRadians(p.longitude);
+  return [Math.cos(lat) * Math.cos(lon), Math.cos(lat) * Math.sin(lon), Math.sin(lat)];
+}
+
+export function fromVector([x, y, z]: [number, number, number]): LatLon {
+  return {
+    latitude: toDegrees(Math.atan2(z, Math.hypot(x, y))),
+    longitude: normalizeLongitude(toDegrees(Math.atan2(y, x))),
+  };
+}
+
+// Point a fraction t of the way along the great circle from a to b (slerp).
+// Working in 3D vectors means the antimeridian needs no special casing.
+export function interpolateGreatCircle(a: LatLon, b: LatLon, t: number): LatLon {
+  const va = toVector(a);
+  const vb = toVector(b);
+  const dot = Math.max(-1, Math.min(1, va[0] * vb[0] + va[1] * vb[1] + va[2] * vb[2]));
+  const omega = Math.acos(dot);
+  if (omega < 1e-9) return { latitude: a.latitude, longitude: a.longitude };
+
+  const sinOmega = Math.sin(omega);
+  const wa = Math.sin((1 - t) * omega) / sinOmega;
+  const wb = Math.sin(t * omega) / sinOmega;
+  return fromVector([wa * va[0] + wb * vb[0], wa * va[1] + wb * vb[1], wa * va[2] + wb * vb[2]]);
+}
+
+// Mean position on the sphere (vector mean), so points either side of the
+// antimeridian or around a pole average sensibly. Null when the points cancel
+// out, e.g. spread evenly around the globe.
+export function sphericalCentroid(points: LatLon[]): LatLon | null {
+  const sum: [number, number, number] = [0, 0, 0];
+  points.forEach((p) => {
+    const v = toVector(p);
+    sum[0] += v[0];
+    sum[1] += v[1];
+    sum[2] += v[2];
+  });
+  const length = Math.hypot(...sum);
+  if (points.length === 0 || length < 1e-6 * points.length) return null;
+  return fromVector([sum[0] / length, sum[1] / length, sum[2] / length]);
+}
+
+// Lat/lon box where east may exceed 180 so that west < east even when the
+// box crosses the antimeridian
+export interface WrappedBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Tightest box around the points: its longitude span is everything except
+// the widest empty gap between neighbouring longitudes
+export function wrappedBounds(points: LatLon[]): WrappedBounds | null {
+  if (points.length === 0) return null;
+  const lons = points.map((p) => normalizeLongitude(p.longitude)).sort((a, b) => a - b);
+  const lats = points.map((p) => p.latitude);
+
+  // Start with the gap that wraps from the last longitude round to the first
+  let widest = lons[0] + 360 - lons[lons.length - 1];
+  let start = 0;
+  for (let i = 1; i < lons.length; i++) {
+    const gap = lons[i] - lons[i - 1];
+    if (gap > widest) {
+      widest = gap;
+      start = i;
+    }
+  }
+
+  return {
+    south: Math.min(...lats),
+    west: lons[start],
+    north: Math.max(...lats),
+    east: lons[start] + 360 - widest,
+  };
+}
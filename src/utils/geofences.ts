@@ -0,0 +1,136 @@
+// Geofences: named polygon regions and the entry/exit events they produce
+
+import { pointInPolygon } from './geo';
+import type { LatLon } from './geo';
+import type { TrackSet } from './tracks';
+
+export interface Geofence {
+  id: number;
+  name: string;
+  polygons: LatLon[][][]; // each polygon is an outer ring followed by holes
+}
+
+export type NewGeofence = Omit<Geofence, 'id'>;
+
+export interface GeofenceEvent {
+  key: string; // stable across refreshes, for spotting new crossings
+  fenceId: number;
+  trackId: string;
+  kind: 'entry' | 'exit';
+  time: Date;
+  hour: number;
+  index: number; // position within that hour's snapshot
+  position: LatLon;
+}
+
+export function addGeofences(fences: Geofence[], added: NewGeofence[]): Geofence[] {
+  let id = fences.reduce((max, f) => Math.max(max, f.id), 0);
+  return [...fences, ...added.map((fence) => ({ ...fence, id: ++id }))];
+}
+
+export function inGeofence(p: LatLon, fence: Geofence): boolean {
+  return fence.polygons.some(
+    ([outer, ...holes]) => pointInPolygon(p, outer) && !holes.some((hole) => pointInPolygon(p, hole))
+  );
+}
+
+// Compare each sighting with the previous one in its track. A balloon's first
+// sighting has nothing to cross from, so it never produces an event.
+export function detectGeofenceEvents(fences: Geofence[], trackSet: TrackSet): GeofenceEvent[] {
+  const events: GeofenceEvent[] = [];
+  fences.forEach((fence) => {
+    trackSet.tracks.forEach((track) => {
+      let wasInside: boolean | null = null;
+      track.points.forEach((point) => {
+        const inside = inGeofence(point, fence);
+        if (wasInside !== null && inside !== wasInside) {
+          const kind = inside ? 'entry' : 'exit';
+          events.push({
+            key: `${fence.id}|${kind}|${point.time.getTime()}|${point.latitude},${point.longitude}`,
+            fenceId: fence.id,
+            trackId: track.id,
+            kind,
+            time: point.time,
+            hour: point.hour,
+            index: point.index,
+            position: { latitude: point.latitude, longitude: point.longitude },
+          });
+        }
+        wasInside = inside;
+      });
+    });
+  });
+  return events.sort((a, b) => b.time.getTime() - a.time.getTime());
+}
+
+function isRing(value: unknown): value is LatLon[] {
+  return (
+    Array.isArray(value) &&
+    value.length >= 3 &&
+    value.every((p) => Number.isFinite(p?.latitude) && Math.abs(p.latitude) <= 90 && Number.isFinite(p?.longitude))
+  );
+}
+
+// Shape check for fences read back from storage
+export function isGeofence(value: unknown): value is Geofence {
+  const fence = value as Partial<Geofence> | null;
+  return (
+    Number.isFinite(fence?.id) &&
+    typeof fence?.name === 'string' &&
+    Array.isArray(fence.polygons) &&
+    fence.polygons.length > 0 &&
+    fence.polygons.every((polygon) => Array.isArray(polygon) && polygon.length > 0 && polygon.every(isRing))
+  );
+}
+
+// GeoJSON positions are [lon, lat]
+function toRing(coordinates: unknown): LatLon[] {
+  if (!Array.isArray(coordinates)) throw new Error('Invalid polygon coordinates');
+  const ring = coordinates.map((position) => {
+    if (!Array.isArray(position) || typeof position[0] !== 'number' || typeof position[1] !== 'number') {
+      throw new Error('Invalid polygon coordinates');
+    }
+    return { latitude: position[1], longitude: position[0] };
+  });
+  if (ring.length < 3) throw new Error('Polygon rings need at least three positions');
+  return ring;
+}
+
+function polygonsOf(geometry: { type?: unknown; coordinates?: unknown } | null | undefined): LatLon[][][] {
+  if (geometry?.type === 'Polygon' && Array.isArray(geometry.coordinates)) {
+    return [geometry.coordinates.map(toRing)];
+  }
+  if (geometry?.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)) {
+    return geometry.coordinates.map((polygon: unknown) => {
+      if (!Array.isArray(polygon)) throw new Error('Invalid MultiPolygon coordinates');
+      return polygon.map(toRing);
+    });
+  }
+  return [];
+}
+
+// Polygon and MultiPolygon features from a GeoJSON document (FeatureCollection,
+// Feature or bare geometry). Features are named from a "name" property.
+export function parseGeofences(json: unknown, fallbackName: string): NewGeofence[] {
+  const doc = json as { type?: unknown; features?: unknown; geometry?: unknown; properties?: unknown };
+  const features =
+    doc?.type === 'FeatureCollection' && Array.isArray(doc.features)
+      ? doc.features
+      : doc?.type === 'Feature'
+        ? [doc]
+        : [{ geometry: doc }];
+
+  const fences = features.flatMap((feature: { geometry?: unknown; properties?: { name?: unknown } | null }, i) => {
+    const polygons = polygonsOf(feature?.geometry as { type?: unknown; coordinates?: unknown });
+    if (polygons.length === 0) return [];
+    const name = typeof feature.properties?.name === 'string' ? feature.properties.name : null;
+    return [{ name: name ?? (features.length > 1 ? `${fallbackName} ${i + 1}` : fallbackName), polygons }];
+  });
+  if (fences.length === 0) throw new Error('No Polygon or MultiPolygon features found');
+  return fences;
+}
+
+export function describeEvent(event: GeofenceEvent, fence: Geofence | undefined): string {
+  const time = `${event.time.toISOString().slice(11, 16)} UTC`;
+  return `${event.trackId} ${event.kind === 'entry' ? 'entered' : 'left'} ${fence?.name ?? 'a geofence'} at ${time}`;
+}
@@ -0,0 +1,98 @@
+// Comparison of two snapshots: balloons that appeared, were lost or moved
+
+import type { ConstellationData } from '../services/constellationApi';
+import { haversineDistance } from './geo';
+import type { TrackPoint, TrackSet } from './tracks';
+import { getTrackId } from './tracks';
+
+export interface MovedBalloon {
+  trackId: string;
+  from: TrackPoint;
+  to: TrackPoint;
+  distanceKm: number;
+  altitudeChange: number; // m
+}
+
+export interface DiffSighting {
+  trackId: string | null;
+  hour: number;
+  index: number;
+}
+
+export interface HourDiff {
+  fromHour: number; // the earlier snapshot
+  toHour: number;
+  appeared: DiffSighting[]; // in the later snapshot only
+  lost: DiffSighting[]; // in the earlier snapshot only
+  moved: MovedBalloon[];
+  meanDisplacementKm: number;
+  maxDisplacementKm: number;
+  meanAltitudeChange: number; // m, signed
+}
+
+// Balloons are matched through their tracks, so a balloon is "moved" when the
+// same track was seen in both hours (even with gaps in between). Inclusion is
+// per balloon: one passing include in either hour is kept (so leaving a
+// filtered altitude band counts as moved, not lost), one failing it wherever
+// it was seen is left out of every category. Null for a single hour.
+export function diffHours(
+  history: ConstellationData[],
+  trackSet: TrackSet,
+  hourA: number,
+  hourB: number,
+  include: (data: ConstellationData, index: number) => boolean = () => true
+): HourDiff | null {
+  // Hours count back from now, so the larger one is earlier
+  const fromHour = Math.max(hourA, hourB);
+  const toHour = Math.min(hourA, hourB);
+  if (fromHour === toHour) return null;
+  const from = history.find((d) => d.hour === fromHour);
+  const to = history.find((d) => d.hour === toHour);
+  if (!from || !to) return null;
+
+  const sightings = (data: ConstellationData) =>
+    new Map(
+      data.positions.map((_, index) => [getTrackId(trackSet, data.hour, index) ?? `${data.hour}:${index}`, index] as const)
+    );
+  const before = sightings(from);
+  const after = sightings(to);
+
+  const passed = (data: ConstellationData, index: number | undefined) => index !== undefined && include(data, index);
+  const dropped = [...new Set([...before.keys(), ...after.keys()])].filter(
+    (trackId) => !passed(from, before.get(trackId)) && !passed(to, after.get(trackId))
+  );
+  dropped.forEach((trackId) => {
+    before.delete(trackId);
+    after.delete(trackId);
+  });
+
+  const moved: MovedBalloon[] = [];
+  const lost: DiffSighting[] = [];
+  before.forEach((index, trackId) => {
+    const laterIndex = after.get(trackId);
+    if (laterIndex === undefined) {
+      lost.push({ trackId: trackSet.byId.has(trackId) ? trackId : null, hour: fromHour, index });
+      return;
+    }
+    const a: TrackPoint = { ...from.positions[index], hour: fromHour, index, time: from.timestamp };
+    const b: TrackPoint = { ...to.positions[laterIndex], hour: toHour, index: laterIndex, time: to.timestamp };
+    moved.push({ trackId, from: a, to: b, distanceKm: haversineDistance(a, b), altitudeChange: b.altitude - a.altitude });
+  });
+
+  const appeared: DiffSighting[] = [];
+  after.forEach((index, trackId) => {
+    if (!before.has(trackId)) appeared.push({ trackId: trackSet.byId.has(trackId) ? trackId : null, hour: toHour, index });
+  });
+
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+  return {
+    fromHour,
+    toHour,
+    appeared,
+    lost,
+    moved,
+    meanDisplacementKm: mean(moved.map((m) => m.distanceKm)),
+    maxDisplacementKm: moved.reduce((max, m) => Math.max(max, m.distanceKm), 0),
+    meanAltitudeChange: mean(moved.map((m) => m.altitudeChange)),
+  };
+}
@@ -0,0 +1,60 @@
+// Per-balloon motion derived from consecutive sightings in a track
+
+import { haversineDistance, initialBearing } from './geo';
+import type { BalloonTrack, TrackSet } from './tracks';
+
+// Motion into one sighting from the previous one
+export interface KinematicStep {
+  hour: number;
+  hours: number; // time since the previous sighting (> 1 after a gap)
+  distanceKm: number;
+  speedKmh: number;
+  bearing: number; // degrees from north
+  verticalRate: number; // m/s, positive climbing
+  altitudeChange: number; // m
+}
+
+export interface TrackKinematics {
+  trackId: string;
+  steps: KinematicStep[]; // oldest first, one per sighting after the first
+  byHour: Map<number, KinematicStep>;
+  totalDistanceKm: number;
+  maxSpeedKmh: number;
+  largestAltitudeChange: number; // m, largest single-step change (signed)
+}
+
+export function trackKinematics(track: BalloonTrack): TrackKinematics {
+  const steps: KinematicStep[] = [];
+  for (let i = 1; i < track.points.length; i++) {
+    const from = track.points[i - 1];
+    const to = track.points[i];
+    const hours = from.hour - to.hour;
+    const distanceKm = haversineDistance(from, to);
+    const altitudeChange = to.altitude - from.altitude;
+    steps.push({
+      hour: to.hour,
+      hours,
+      distanceKm,
+      speedKmh: distanceKm / hours,
+      bearing: initialBearing(from, to),
+      verticalRate: altitudeChange / (hours * 3600),
+      altitudeChange,
+    });
+  }
+
+  return {
+    trackId: track.id,
+    steps,
+    byHour: new Map(steps.map((s) => [s.hour, s])),
+    totalDistanceKm: steps.reduce((sum, s) => sum + s.distanceKm, 0),
+    maxSpeedKmh: steps.reduce((max, s) => Math.max(max, s.speedKmh), 0),
+    largestAltitudeChange: steps.reduce(
+      (largest, s) => (Math.abs(s.altitudeChange) > Math.abs(largest) ? s.altitudeChange : largest),
+      0
+    ),
+  };
+}
+
+export function computeKinematics(trackSet: TrackSet): Map<string, TrackKinematics> {
+  return new Map(trackSet.tracks.map((track) => [track.id, trackKinematics(track)]));
+}
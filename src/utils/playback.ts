@@ -0,0 +1,56 @@
+// Interpolated frames for animated time playback
+
+import type { BalloonTrack, TrackPoint } from './tracks';
+import { interpolateGreatCircle } from './geo';
+
+export interface PlaybackPoint {
+  trackId: string;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+  opacity: number; // fades balloons that appear or vanish between hours
+}
+
+export interface TrackHourIndex {
+  id: string;
+  byHour: Map<number, TrackPoint>;
+}
+
+// Per-track hour lookup, built once per history
+export function indexTracksByHour(tracks: BalloonTrack[]): TrackHourIndex[] {
+  return tracks.map((track) => ({
+    id: track.id,
+    byHour: new Map(track.points.map((p) => [p.hour, p])),
+  }));
+}
+
+// Positions at a fractional "hours ago" time. Playback runs from older to
+// newer, so 5.25 is a quarter of the way from hour 6 towards hour 5.
+export function interpolateFrame(index: TrackHourIndex[], hoursAgo: number): PlaybackPoint[] {
+  const olderHour = Math.ceil(hoursAgo);
+  const newerHour = Math.floor(hoursAgo);
+  const t = olderHour - hoursAgo;
+  const frame: PlaybackPoint[] = [];
+
+  index.forEach(({ id, byHour }) => {
+    const from = byHour.get(olderHour);
+    const to = byHour.get(newerHour);
+
+    if (from && to) {
+      const position = interpolateGreatCircle(from, to, t);
+      frame.push({
+        trackId: id,
+        ...position,
+        altitude: from.altitude + (to.altitude - from.altitude) * t,
+        opacity: 1,
+      });
+    } else if (from) {
+      // No match in the next hour: fade out in place
+      frame.push({ trackId: id, latitude: from.latitude, longitude: from.longitude, altitude: from.altitude, opacity: 1 - t });
+    } else if (to) {
+      frame.push({ trackId: id, latitude: to.latitude, longitude: to.longitude, altitude: to.altitude, opacity: t });
+    }
+  });
+
+  return frame.filter((p) => p.opacity > 0.01);
+}
@@ -0,0 +1,72 @@
+// Uniform lat/lon grid index for fast neighbourhood lookups
+
+import { normalizeLongitude } from './geo';
+import type { LatLon } from './geo';
+
+export interface GridIndex<T> {
+  // Items within radiusDeg (per axis, longitude wrap-aware) of a point
+  query(point: LatLon, radiusDeg: number): T[];
+  // Closest item within radiusDeg, optionally restricted by a predicate
+  nearest(point: LatLon, radiusDeg: number, accept?: (item: T) => boolean): T | null;
+}
+
+export function createGridIndex<T>(items: T[], getPoint: (item: T) => LatLon, cellSize: number = 1): GridIndex<T> {
+  const columns = Math.ceil(360 / cellSize);
+  const cells = new Map<number, T[]>();
+
+  const rowOf = (lat: number) => Math.floor((lat + 90) / cellSize);
+  const columnOf = (lon: number) => ((Math.floor((normalizeLongitude(lon) + 180) / cellSize) % columns) + columns) % columns;
+  const cellKey = (row: number, column: number) => row * columns + column;
+
+  items.forEach((item) => {
+    const p = getPoint(item);
+    const key = cellKey(rowOf(p.latitude), columnOf(p.longitude));
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(item);
+    else cells.set(key, [item]);
+  });
+
+  // Per-axis degree distance, wrapping longitude
+  const offsets = (a: LatLon, b: LatLon) => {
+    const dLon = Math.abs(normalizeLongitude(b.longitude - a.longitude));
+    return { dLat: Math.abs(b.latitude - a.latitude), dLon };
+  };
+
+  function query(point: LatLon, radiusDeg: number): T[] {
+    const span = Math.ceil(radiusDeg / cellSize);
+    const row = rowOf(point.latitude);
+    const column = columnOf(point.longitude);
+    const found: T[] = [];
+    const visited = new Set<number>();
+
+    for (let r = row - span; r <= row + span; r++) {
+      for (let c = column - span; c <= column + span; c++) {
+        const key = cellKey(r, ((c % columns) + columns) % columns);
+        if (visited.has(key)) continue;
+        visited.add(key);
+        cells.get(key)?.forEach((item) => {
+          const { dLat, dLon } = offsets(point, getPoint(item));
+          if (dLat <= radiusDeg && dLon <= radiusDeg) found.push(item);
+        });
+      }
+    }
+    return found;
+  }
+
+  function nearest(point: LatLon, radiusDeg: number, accept?: (item: T) => boolean): T | null {
+    let best: T | null = null;
+    let bestDistance = Infinity;
+    query(point, radiusDeg).forEach((item) => {
+      if (accept && !accept(item)) return;
+      const { dLat, dLon } = offsets(point, getPoint(item));
+      const distance = dLat * dLat + dLon * dLon;
+      if (distance < bestDistance) {
+        best = item;
+        bestDistance = distance;
+      }
+    });
+    return best;
+  }
+
+  return { query, nearest };
+}
@@ -0,0 +1,211 @@
+// Track association: link hourly snapshots into per-balloon tracks
+
+import type { BalloonPosition, ConstellationData } from '../services/constellationApi';
+import { haversineDistance, KM_PER_DEGREE_LAT, longitudeDelta, normalizeLongitude } from './geo';
+import type { LatLon } from './geo';
+
+export interface TrackPoint extends BalloonPosition {
+  hour: number;
+  index: number; // index within that hour's snapshot
+  time: Date;
+}
+
+export interface BalloonTrack {
+  id: string;
+  points: TrackPoint[]; // oldest first
+}
+
+export interface TrackSet {
+  tracks: BalloonTrack[];
+  byId: Map<string, BalloonTrack>;
+  byPosition: Map<string, string>; // "hour:index" -> track id
+}
+
+// Gating: max plausible drift with no motion history, and allowed
+// deviation from the predicted position once a track has a velocity
+const MAX_SPEED_KMH = 350;
+const MOTION_GATE_KM = 150;
+
+// How many consecutive hours a track may go unobserved before it is closed
+const MAX_MISSED_HOURS = 2;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface ActiveTrack {
+  track: BalloonTrack;
+  last: TrackPoint;
+  velocity: { lat: number; lon: number } | null; // degrees per hour
+}
+
+function positionKey(hour: number, index: number): string {
+  return `${hour}:${index}`;
+}
+
+// ID naming a sighting: UTC hour + index in that snapshot. New tracks are
+// named after their first sighting; findTrack resolves any sighting's ID.
+export function sightingId(point: TrackPoint): string {
+  const iso = new Date(Math.floor(point.time.getTime() / HOUR_MS) * HOUR_MS).toISOString();
+  return `${iso.slice(0, 10).replace(/-/g, '')}T${iso.slice(11, 13)}-${point.index + 1}`;
+}
+
+// Expected position of a track after gapHours
+function predict(active: ActiveTrack, gapHours: number): LatLon {
+  if (!active.velocity) return active.last;
+  return {
+    latitude: Math.max(-90, Math.min(90, active.last.latitude + active.velocity.lat * gapHours)),
+    longitude: normalizeLongitude(active.last.longitude + active.velocity.lon * gapHours),
+  };
+}
+
+// First index in sorted latitudes with value >= target
+function lowerBound(sorted: number[], target: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Same snapshot and coordinates, whatever the hour is labelled after a roll
+function sightingKey(point: TrackPoint): string {
+  return `${point.time.getTime()}:${point.latitude},${point.longitude}`;
+}
+
+// Tracks that share a sighting with a track of the previous build keep its
+// ID, so IDs survive their first sighting rolling out of the window
+function inheritIds(tracks: BalloonTrack[], previous: TrackSet): void {
+  const previousIds = new Map<string, string>();
+  previous.tracks.forEach((track) => track.points.forEach((point) => previousIds.set(sightingKey(point), track.id)));
+
+  const claimed = new Set<string>();
+  const unclaimed: BalloonTrack[] = [];
+  tracks.forEach((track) => {
+    const id = track.points.map((point) => previousIds.get(sightingKey(point))).find((id) => id !== undefined);
+    if (id !== undefined && !claimed.has(id)) {
+      claimed.add(id);
+      track.id = id;
+    } else {
+      unclaimed.push(track);
+    }
+  });
+
+  // A track split off an inherited one may be named after a sighting whose
+  // ID the other half kept; name it after one of its other sightings instead
+  unclaimed.forEach((track) => {
+    if (!claimed.has(track.id)) return;
+    track.id = track.points.map(sightingId).find((id) => !claimed.has(id)) ?? `${track.id}-${track.points.length}`;
+  });
+}
+
+// Link positions hour to hour with gated greedy nearest-neighbour matching.
+// Pass the previous build to carry its track IDs over.
+export function buildTracks(history: ConstellationData[], previous?: TrackSet | null): TrackSet {
+  const snapshots = [...history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const tracks: BalloonTrack[] = [];
+  const byPosition = new Map<string, string>();
+  let active: ActiveTrack[] = [];
+
+  for (const snapshot of snapshots) {
+    const points: TrackPoint[] = snapshot.positions.map((p, index) => ({
+      ...p,
+      hour: snapshot.hour,
+      index,
+      time: snapshot.timestamp,
+    }));
+
+    // Sort by latitude so each track only checks points inside its gate band
+    const order = points.map((_, i) => i).sort((a, b) => points[a].latitude - points[b].latitude);
+    const sortedLats = order.map((i) => points[i].latitude);
+
+    const pairs: Array<{ track: number; point: number; distance: number }> = [];
+    active.forEach((a, trackIdx) => {
+      const gapHours = Math.max(1, (snapshot.timestamp.getTime() - a.last.time.getTime()) / HOUR_MS);
+      const expected = predict(a, gapHours);
+      const gateKm = a.velocity ? MOTION_GATE_KM * gapHours : MAX_SPEED_KMH * gapHours;
+      const gateDeg = gateKm / KM_PER_DEGREE_LAT;
+
+      for (let k = lowerBound(sortedLats, expected.latitude - gateDeg); k < order.length; k++) {
+        if (sortedLats[k] > expected.latitude + gateDeg) break;
+        const distance = haversineDistance(expected, points[order[k]]);
+        if (distance <= gateKm) pairs.push({ track: trackIdx, point: order[k], distance });
+      }
+    });
+
+    pairs.sort((a, b) => a.distance - b.distance);
+    const matchedTracks = new Set<number>();
+    const matchedPoints = new Set<number>();
+    const next: ActiveTrack[] = [];
+
+    for (const pair of pairs) {
+      if (matchedTracks.has(pair.track) || matchedPoints.has(pair.point)) continue;
+      matchedTracks.add(pair.track);
+      matchedPoints.add(pair.point);
+
+      const a = active[pair.track];
+      const point = points[pair.point];
+      const gapHours = Math.max(1, (point.time.getTime() - a.last.time.getTime()) / HOUR_MS);
+      a.track.points.push(point);
+      byPosition.set(positionKey(point.hour, point.index), a.track.id);
+      next.push({
+        track: a.track,
+        last: point,
+        velocity: {
+          lat: (point.latitude - a.last.latitude) / gapHours,
+          lon: longitudeDelta(a.last.longitude, point.longitude) / gapHours,
+        },
+      });
+    }
+
+    // Keep unmatched tracks alive for a few hours in case the balloon reappears
+    active.forEach((a, trackIdx) => {
+      if (matchedTracks.has(trackIdx)) return;
+      const missedHours = (snapshot.timestamp.getTime() - a.last.time.getTime()) / HOUR_MS;
+      if (missedHours < MAX_MISSED_HOURS + 1) next.push(a);
+    });
+
+    points.forEach((point, i) => {
+      if (matchedPoints.has(i)) return;
+      const track: BalloonTrack = { id: sightingId(point), points: [point] };
+      tracks.push(track);
+      byPosition.set(positionKey(point.hour, point.index), track.id);
+      next.push({ track, last: point, velocity: null });
+    });
+
+    active = next;
+  }
+
+  if (previous) {
+    inheritIds(tracks, previous);
+    tracks.forEach((track) => track.points.forEach((p) => byPosition.set(positionKey(p.hour, p.index), track.id)));
+  }
+
+  return {
+    tracks,
+    byId: new Map(tracks.map((t) => [t.id, t])),
+    byPosition,
+  };
+}
+
+// Track ID for a position in a given hour's snapshot
+export function getTrackId(trackSet: TrackSet, hour: number, index: number): string | undefined {
+  return trackSet.byPosition.get(positionKey(hour, index));
+}
+
+// Look a track up by ID. IDs from an older window (e.g. a shared link) are
+// resolved through the sighting they encode while that hour is still loaded.
+export function findTrack(trackSet: TrackSet, history: ConstellationData[], id: string): BalloonTrack | null {
+  const direct = trackSet.byId.get(id);
+  if (direct) return direct;
+
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})-(\d+)$/.exec(id);
+  if (!match) return null;
+  const [, year, month, day, hour, position] = match.map(Number);
+  const time = Date.UTC(year, month - 1, day, hour);
+  const snapshot = history.find((d) => d.timestamp.getTime() === time);
+  if (!snapshot) return null;
+  const resolved = getTrackId(trackSet, snapshot.hour, position - 1);
+  return resolved ? trackSet.byId.get(resolved) ?? null : null;
+}
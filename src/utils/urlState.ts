@@ -0,0 +1,180 @@
+// Shareable view state <-> query string
+//
+//   ?t=2026-10-19T11Z&lat=12.3456&lon=-45.6789&z=4&follow=1&track=20261019T08-12
+//    &tracks=0&anomalies=hide&color=altitude&scheme=viridis&domain=data&op=or&f=alt:1000,5000&f=box:-10,170,10,-170&f=wx:temperature,<,-40
+//    &source=replay:incident-2026-10-18
+
+import type { ConstellationData } from '../services/constellationApi';
+import { addCondition, EMPTY_FILTER, WEATHER_FIELDS } from './filters';
+import type { FilterState, NewFilterCondition, WeatherField } from './filters';
+import { DEFAULT_COLOR_OPTIONS, METRICS, SCHEMES } from './colorScale';
+import type { ColorMetric, ColorScaleOptions, ColorScheme } from './colorScale';
+
+export interface MapView {
+  lat: number;
+  lon: number;
+  zoom: number;
+}
+
+export interface UrlState {
+  time: Date | null; // UTC hour being viewed
+  view: MapView | null; // null fits the map to the constellation
+  follow: boolean; // recentre on the constellation at every hour
+  trackId: string | null;
+  showTracks: boolean;
+  hideAnomalies: boolean;
+  color: ColorScaleOptions;
+  filter: FilterState;
+  source: string | null; // data source spec (see services/dataSource.ts); read once at startup
+}
+
+const COORD_DIGITS = 4;
+const HOUR_MS = 60 * 60 * 1000;
+
+function coord(value: number): string {
+  return String(Number(value.toFixed(COORD_DIGITS)));
+}
+
+function formatHour(time: Date): string {
+  return time.toISOString().slice(0, 13) + 'Z';
+}
+
+function parseHour(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2})Z$/.exec(value);
+  if (match) {
+    const [year, month, day, hour] = match.slice(1).map(Number);
+    return new Date(Date.UTC(year, month - 1, day, hour));
+  }
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : new Date(ms);
+}
+
+function numbers(value: string): number[] {
+  return value.split(',').map((v) => (v === '' ? NaN : Number(v)));
+}
+
+function encodeCondition(condition: NewFilterCondition): string {
+  switch (condition.kind) {
+    case 'altitude':
+      return `alt:${condition.min ?? ''},${condition.max ?? ''}`;
+    case 'rectangle': {
+      const { south, west, north, east } = condition.bounds;
+      return `box:${[south, west, north, east].map(coord).join(',')}`;
+    }
+    case 'polygon':
+      return `poly:${condition.points
+        .map((p) => `${coord(p.latitude)},${coord(p.longitude)}`)
+        .join(';')}`;
+    case 'weather':
+      return `wx:${condition.field},${condition.op},${condition.value}`;
+  }
+}
+
+// Malformed conditions are dropped rather than failing the whole link
+function decodeCondition(value: string): NewFilterCondition | null {
+  const separator = value.indexOf(':');
+  const kind = value.slice(0, separator);
+  const body = value.slice(separator + 1);
+
+  switch (kind) {
+    case 'alt': {
+      const [min, max] = numbers(body);
+      const clean = (v: number | undefined) => (v === undefined || Number.isNaN(v) ? null : v);
+      if (clean(min) === null && clean(max) === null) return null;
+      return { kind: 'altitude', min: clean(min), max: clean(max) };
+    }
+    case 'box': {
+      const values = numbers(body);
+      if (values.length !== 4 || values.some(Number.isNaN)) return null;
+      const [south, west, north, east] = values;
+      return { kind: 'rectangle', bounds: { south, west, north, east } };
+    }
+    case 'poly': {
+      const points = body.split(';').map(numbers);
+      if (points.length < 3 || points.some((p) => p.length !== 2 || p.some(Number.isNaN))) return null;
+      return { kind: 'polygon', points: points.map(([latitude, longitude]) => ({ latitude, longitude })) };
+    }
+    case 'wx': {
+      const [field, op, raw] = body.split(',');
+      const threshold = Number(raw);
+      if (!Object.hasOwn(WEATHER_FIELDS, field) || (op !== '<' && op !== '>') || raw === '' || Number.isNaN(threshold)) {
+        return null;
+      }
+      return { kind: 'weather', field: field as WeatherField, op, value: threshold };
+    }
+    default:
+      return null;
+  }
+}
+
+export function parseUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search);
+
+  const time = params.get('t');
+  const [lat, lon, zoom] = ['lat', 'lon', 'z'].map((name) => Number(params.get(name) ?? NaN));
+  const view = [lat, lon, zoom].every(Number.isFinite) ? { lat, lon, zoom } : null;
+
+  let filter: FilterState = { ...EMPTY_FILTER, combine: params.get('op') === 'or' ? 'or' : 'and' };
+  params.getAll('f').forEach((value) => {
+    const condition = decodeCondition(value);
+    if (condition) filter = addCondition(filter, condition);
+  });
+
+  const metric = params.get('color') ?? '';
+  const scheme = params.get('scheme') ?? '';
+  const color: ColorScaleOptions = {
+    metric: Object.hasOwn(METRICS, metric) ? (metric as ColorMetric) : DEFAULT_COLOR_OPTIONS.metric,
+    scheme: Object.hasOwn(SCHEMES, scheme) ? (scheme as ColorScheme) : DEFAULT_COLOR_OPTIONS.scheme,
+    domain: params.get('domain') === 'data' ? 'data' : DEFAULT_COLOR_OPTIONS.domain,
+  };
+
+  return {
+    time: time ? parseHour(time) : null,
+    view,
+    follow: params.get('follow') === '1',
+    trackId: params.get('track'),
+    showTracks: params.get('tracks') !== '0',
+    hideAnomalies: params.get('anomalies') === 'hide',
+    color,
+    filter,
+    source: params.get('source'),
+  };
+}
+
+// Defaults are left out so an untouched view has a short link
+export function serializeUrlState(state: UrlState): string {
+  const params = new URLSearchParams();
+  if (state.time) params.set('t', formatHour(state.time));
+  if (state.view) {
+    params.set('lat', coord(state.view.lat));
+    params.set('lon', coord(state.view.lon));
+    params.set('z', String(state.view.zoom));
+  }
+  if (state.follow) params.set('follow', '1');
+  if (state.trackId) params.set('track', state.trackId);
+  if (!state.showTracks) params.set('tracks', '0');
+  if (state.hideAnomalies) params.set('anomalies', 'hide');
+  if (state.color.metric !== DEFAULT_COLOR_OPTIONS.metric) params.set('color', state.color.metric);
+  if (state.color.scheme !== DEFAULT_COLOR_OPTIONS.scheme) params.set('scheme', state.color.scheme);
+  if (state.color.domain !== DEFAULT_COLOR_OPTIONS.domain) params.set('domain', state.color.domain);
+  if (state.filter.conditions.length > 0) {
+    if (state.filter.combine === 'or') params.set('op', 'or');
+    state.filter.conditions.forEach((condition) => params.append('f', encodeCondition(condition)));
+  }
+  if (state.source) params.set('source', state.source);
+
+  // ':', ',' and ';' are legal in a query string; keep them readable
+  const query = params.toString().replace(/%3A/g, ':').replace(/%2C/g, ',').replace(/%3B/g, ';');
+  return query ? `?${query}` : '';
+}
+
+// Hour offset of the snapshot for an absolute time; null when that hour isn't
+// loaded (e.g. a shared link from before the current window)
+export function hourForTime(history: ConstellationData[], time: Date): number | null {
+  const distance = (d: ConstellationData) => Math.abs(d.timestamp.getTime() - time.getTime());
+  const best = history.reduce<ConstellationData | null>(
+    (closest, d) => (!closest || distance(d) < distance(closest) ? d : closest),
+    null
+  );
+  return best && distance(best) < HOUR_MS / 2 ? best.hour : null;
+}
@@ -1,7 +1,48 @@
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const RECORDINGS_DIR = fileURLToPath(new URL('./public/recordings', import.meta.url))
+
+// Dev-server endpoint behind the record:<name> data source: PUT
+// /__recordings/<name>/<file> writes public/recordings/<name>/<file>, where
+// replay:<name> reads it back
+function recordings(): Plugin {
+  return {
+    name: 'recordings',
+    configureServer(server) {
+      server.middlewares.use('/__recordings', (req, res, next) => {
+        if (req.method !== 'PUT' || !req.url) return next()
+
+        const target = path.resolve(RECORDINGS_DIR, decodeURIComponent(req.url.split('?')[0]).replace(/^\/+/, ''))
+        if (!target.startsWith(RECORDINGS_DIR + path.sep) || !target.endsWith('.json')) {
+          res.statusCode = 400
+          res.end()
+          return
+        }
+
+        const chunks: Buffer[] = []
+        req.on('data', (chunk: Buffer) => chunks.push(chunk))
+        req.on('end', async () => {
+          try {
+            await mkdir(path.dirname(target), { recursive: true })
+            await writeFile(target, Buffer.concat(chunks))
+            res.statusCode = 204
+          } catch (error) {
+            server.config.logger.error(`Recording ${target} failed: ${error}`)
+            res.statusCode = 500
+          }
+          res.end()
+        })
+      })
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), recordings()],
 })